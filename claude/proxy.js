@@ -3,6 +3,7 @@
 /**
  * MCP Proxy for Azure DevOps Docker Container
  * Fixed to ensure all responses have valid IDs
+ * Speaks Streamable HTTP: tracks Mcp-Session-Id and unwraps SSE responses
  */
 
 const http = require('http');
@@ -10,6 +11,7 @@ const http = require('http');
 process.stdin.setEncoding('utf8');
 
 let messageBuffer = '';
+let sessionId = null;
 
 function sendToServer(message, callback) {
 	const postData = JSON.stringify(message);
@@ -21,20 +23,31 @@ function sendToServer(message, callback) {
 		method: 'POST',
 		headers: {
 			'Content-Type': 'application/json',
-			'Content-Length': Buffer.byteLength(postData)
+			'Accept': 'application/json, text/event-stream',
+			'Content-Length': Buffer.byteLength(postData),
+			...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
 		},
 		timeout: 10000
 	};
 
 	const req = http.request(options, (res) => {
 		let responseData = '';
+
+		// Remember the session issued by the server on initialize
+		if (res.headers['mcp-session-id']) {
+			sessionId = res.headers['mcp-session-id'];
+		}
 		
 		res.on('data', (chunk) => {
 			responseData += chunk;
 		});
 		
 		res.on('end', () => {
-			callback(null, responseData);
+			if ((res.headers['content-type'] || '').includes('text/event-stream')) {
+				callback(null, extractSseData(responseData));
+			} else {
+				callback(null, responseData);
+			}
 		});
 	});
 
@@ -51,6 +64,17 @@ function sendToServer(message, callback) {
 	req.end();
 }
 
+// Return the JSON-RPC response carried in an SSE body (last "data:" event)
+function extractSseData(body) {
+	const events = body
+		.split('\n')
+		.filter((line) => line.startsWith('data:'))
+		.map((line) => line.slice(5).trim())
+		.filter((data) => data && data.includes('"id"'));
+
+	return events.length > 0 ? events[events.length - 1] : '';
+}
+
 function processMessage(messageText) {
 	try {
 		const message = JSON.parse(messageText);
@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AuthenticationContext } from './auth-middleware';
+import { CallerIdentity } from './inbound-auth';
+import { logger } from './logger';
+import { redact } from './redact';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executing' | 'executed' | 'failed';
+
+export interface ApprovalRequest {
+  id: string;
+  status: ApprovalStatus;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  caller?: CallerIdentity;
+  organization?: string;
+  // Auth context without the Azure DevOps credential, which is never persisted
+  context: Omit<AuthenticationContext, 'azureDevOpsCredential' | 'caller'>;
+  usesCallerCredential: boolean;
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  reason?: string;
+  completedAt?: string;
+  result?: any;
+  error?: string;
+  // Set on disk when redaction changed the arguments, so the call cannot be resumed from the file
+  argumentsRedacted?: boolean;
+}
+
+/**
+ * Thrown by MCPClientManager.callTool when a call has been parked for approval
+ */
+export class ApprovalPendingError extends Error {
+  constructor(public approval: ApprovalRequest) {
+    super(`Tool '${approval.toolName}' requires approval (approval id: ${approval.id})`);
+    this.name = 'ApprovalPendingError';
+  }
+}
+
+/**
+ * Pending human approvals for tool calls, persisted to a JSON file so they survive restarts.
+ * Credentials are kept in memory only; approvals created with a caller credential
+ * must be re-submitted by the caller with the approval id after a restart.
+ * Undecided or unused approvals expire after APPROVAL_TTL_MS; finished ones are
+ * dropped APPROVAL_RETENTION_MS after they complete.
+ */
+export class ApprovalStore {
+  private approvals: Map<string, ApprovalRequest> = new Map();
+  private contexts: Map<string, AuthenticationContext> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+  // A write is queued and will pick up every change made before it starts
+  private savePending = false;
+  private ttlMs: number;
+  private retentionMs: number;
+
+  constructor(private filePath: string = process.env.APPROVALS_FILE || 'data/approvals.json') {
+    this.ttlMs = parseInt(process.env.APPROVAL_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+    this.retentionMs = parseInt(process.env.APPROVAL_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000), 10);
+    this.load();
+  }
+
+  create(toolName: string, args: Record<string, unknown>, authContext: AuthenticationContext): ApprovalRequest {
+    const { azureDevOpsCredential, caller, ...context } = authContext;
+
+    const approval: ApprovalRequest = {
+      id: randomUUID(),
+      status: 'pending',
+      toolName,
+      arguments: args,
+      caller,
+      organization: authContext.azureDevOpsOrg,
+      context,
+      usesCallerCredential: !!azureDevOpsCredential,
+      createdAt: new Date().toISOString()
+    };
+
+    this.approvals.set(approval.id, approval);
+    this.contexts.set(approval.id, authContext);
+    this.save();
+
+    logger.info('Tool call parked for approval', { tool: toolName, approvalId: approval.id });
+    return approval;
+  }
+
+  get(id: string): ApprovalRequest | undefined {
+    return this.approvals.get(id);
+  }
+
+  list(status?: ApprovalStatus): ApprovalRequest[] {
+    const approvals = Array.from(this.approvals.values());
+    return status ? approvals.filter(approval => approval.status === status) : approvals;
+  }
+
+  decide(id: string, approved: boolean, decidedBy?: string, reason?: string): ApprovalRequest {
+    const approval = this.requirePending(id);
+
+    approval.status = approved ? 'approved' : 'rejected';
+    approval.decidedAt = new Date().toISOString();
+    approval.decidedBy = decidedBy;
+    approval.reason = reason;
+    if (!approved) {
+      this.contexts.delete(id);
+    }
+    this.save();
+
+    logger.info('Approval decided', { approvalId: id, status: approval.status, decidedBy });
+    return approval;
+  }
+
+  /**
+   * Auth context to execute an approved call with, if it can be restored
+   */
+  getContext(id: string): AuthenticationContext | undefined {
+    const approval = this.approvals.get(id);
+    if (!approval) {
+      return undefined;
+    }
+
+    const context = this.contexts.get(id);
+    if (context) {
+      return context;
+    }
+
+    // Without a caller credential the call runs as the container identity and can be resumed after restart
+    return approval.usesCallerCredential ? undefined : { ...approval.context, caller: approval.caller };
+  }
+
+  markExecuting(id: string): void {
+    const approval = this.approvals.get(id);
+    if (!approval || approval.status !== 'approved') {
+      throw new Error(`Approval ${id} is not approved`);
+    }
+
+    approval.status = 'executing';
+    this.save();
+  }
+
+  complete(id: string, result: any): void {
+    this.finish(id, 'executed', { result });
+  }
+
+  fail(id: string, error: string): void {
+    this.finish(id, 'failed', { error });
+  }
+
+  private finish(id: string, status: ApprovalStatus, outcome: Partial<ApprovalRequest>): void {
+    const approval = this.approvals.get(id);
+    if (!approval) {
+      return;
+    }
+
+    Object.assign(approval, outcome, { status, completedAt: new Date().toISOString() });
+    this.contexts.delete(id);
+    this.save();
+  }
+
+  /**
+   * Expire approvals left undecided (or approved but never run) for APPROVAL_TTL_MS, releasing
+   * their credentials, and drop finished approvals older than APPROVAL_RETENTION_MS
+   */
+  cleanupExpiredApprovals(): number {
+    const now = Date.now();
+    let expired = 0;
+    let removed = 0;
+
+    for (const [id, approval] of this.approvals) {
+      if (approval.completedAt) {
+        if (new Date(approval.completedAt).getTime() < now - this.retentionMs) {
+          this.approvals.delete(id);
+          this.contexts.delete(id);
+          removed++;
+        }
+        continue;
+      }
+
+      const since = new Date(approval.decidedAt || approval.createdAt).getTime();
+      if ((approval.status === 'pending' || approval.status === 'approved') && since < now - this.ttlMs) {
+        Object.assign(approval, {
+          status: 'failed',
+          error: approval.status === 'pending' ? 'Approval expired without a decision' : 'Approved call was not made before the approval expired',
+          completedAt: new Date(now).toISOString()
+        });
+        this.contexts.delete(id);
+        expired++;
+      }
+    }
+
+    if (expired > 0 || removed > 0) {
+      this.save();
+      logger.info('Cleaned up approvals', { expired, removed });
+    }
+    return expired + removed;
+  }
+
+  /**
+   * Wait for queued writes (shutdown)
+   */
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  private requirePending(id: string): ApprovalRequest {
+    const approval = this.approvals.get(id);
+    if (!approval) {
+      throw new Error(`Approval ${id} not found`);
+    }
+    if (approval.status !== 'pending') {
+      throw new Error(`Approval ${id} is already ${approval.status}`);
+    }
+    return approval;
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+
+      const approvals: ApprovalRequest[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const approval of approvals) {
+        // A call interrupted mid-execution has an unknown outcome
+        if (approval.status === 'executing') {
+          approval.status = 'failed';
+          approval.error = 'Server restarted while the call was executing';
+        }
+        // Redacted arguments cannot be replayed; the caller must make the call again
+        if (approval.argumentsRedacted && (approval.status === 'pending' || approval.status === 'approved')) {
+          approval.status = 'failed';
+          approval.error = 'Server restarted; arguments were redacted on disk, so the call must be made again';
+        }
+        this.approvals.set(approval.id, approval);
+      }
+
+      logger.info('Loaded approvals', { count: approvals.length, file: this.filePath });
+    } catch (error) {
+      logger.error('Failed to load approvals', { file: this.filePath, error });
+    }
+  }
+
+  /**
+   * Queue a write of the whole store; changes made while a write is queued are coalesced into it
+   */
+  private save(): void {
+    if (this.savePending) {
+      return;
+    }
+    this.savePending = true;
+
+    this.writing = this.writing
+      .then(() => {
+        this.savePending = false;
+        return this.write(JSON.stringify(Array.from(this.approvals.values(), toPersisted), null, 2));
+      })
+      .catch(error => {
+        logger.error('Failed to persist approvals', { file: this.filePath, error });
+      });
+  }
+
+  private async write(contents: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, contents);
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Copy written to APPROVALS_FILE: arguments and result are redacted like the audit log
+ */
+function toPersisted(approval: ApprovalRequest): ApprovalRequest {
+  const args = redact(approval.arguments);
+  return {
+    ...approval,
+    arguments: args,
+    result: redact(approval.result),
+    ...(JSON.stringify(args) !== JSON.stringify(approval.arguments) ? { argumentsRedacted: true } : {})
+  };
+}
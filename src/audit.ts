@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { redact } from './redact';
+import { logger } from './logger';
+
+export type AuditSource = 'rest' | 'batch' | 'jsonrpc' | 'approval' | 'job';
+export type AuditOutcome = 'success' | 'tool_error' | 'error' | 'denied' | 'pending' | 'timeout' | 'cancelled' | 'invalid' | 'rate_limited';
+
+export interface AuditEntry {
+  timestamp: string;
+  caller?: string;
+  callerType?: string;
+  organization?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  outcome: AuditOutcome;
+  isError: boolean;
+  durationMs: number;
+  clientKey: string;
+  source?: AuditSource;
+  approvalId?: string;
+  // Served from the response cache without an upstream call
+  cached?: boolean;
+  error?: string;
+}
+
+// Most entries a single query returns
+const MAX_QUERY_LIMIT = 1000;
+
+export interface AuditQuery {
+  tool?: string;
+  caller?: string;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Append-only JSONL audit log of tool invocations with size-based rotation.
+ * Rotated files are named audit.jsonl.1 (newest) ... audit.jsonl.N (oldest).
+ */
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(private filePath: string = process.env.AUDIT_LOG_FILE || 'data/audit.jsonl') {
+    this.maxBytes = parseInt(process.env.AUDIT_MAX_BYTES || String(10 * 1024 * 1024), 10);
+    this.maxFiles = parseInt(process.env.AUDIT_MAX_FILES || '5', 10);
+  }
+
+  /**
+   * Queue an entry for writing; arguments are redacted before they reach disk
+   */
+  record(entry: AuditEntry): void {
+    const line = JSON.stringify({ ...entry, arguments: redact(entry.arguments) }) + '\n';
+
+    this.writing = this.writing
+      .then(() => this.append(line))
+      .catch(error => {
+        logger.error('Failed to write audit log', { file: this.filePath, error });
+      });
+  }
+
+  /**
+   * Query entries across the current and rotated files, newest first (at most MAX_QUERY_LIMIT)
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writing;
+
+    const limit = Math.min(Math.max(query.limit || 100, 1), MAX_QUERY_LIMIT);
+    const results: AuditEntry[] = [];
+
+    for (const [index, file] of this.getFiles().entries()) {
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+
+      // A rotated file last written before "since" holds only older entries, as do the files after it
+      if (index > 0 && query.since && (await fs.promises.stat(file)).mtime < query.since) {
+        break;
+      }
+
+      results.push(...(await this.readMatches(file, query, limit - results.length)).reverse());
+      if (results.length >= limit) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  private async append(line: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    try {
+      const stats = await fs.promises.stat(this.filePath);
+      if (stats.size + Buffer.byteLength(line) > this.maxBytes) {
+        await this.rotate();
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    await fs.promises.appendFile(this.filePath, line);
+  }
+
+  private async rotate(): Promise<void> {
+    const files = this.getFiles();
+
+    // Drop the oldest, shift the rest up by one
+    await fs.promises.rm(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      if (fs.existsSync(files[i])) {
+        await fs.promises.rename(files[i], files[i + 1]);
+      }
+    }
+  }
+
+  /**
+   * Current file followed by rotated files, newest first
+   */
+  /**
+   * The last `max` entries of a file matching the query, oldest first; the file is streamed
+   * line by line so only those entries are held in memory
+   */
+  private async readMatches(file: string, query: AuditQuery, max: number): Promise<AuditEntry[]> {
+    const matches: AuditEntry[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(file, 'utf8'), crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line) {
+        continue;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      // Entries are appended on completion but stamped with the start time, so files are
+      // only roughly chronological and an older entry may precede a matching one
+      if (query.since && new Date(entry.timestamp) < query.since) {
+        continue;
+      }
+      if (query.tool && entry.tool !== query.tool) {
+        continue;
+      }
+      if (query.caller && entry.caller !== query.caller) {
+        continue;
+      }
+
+      matches.push(entry);
+      if (matches.length > max) {
+        matches.shift();
+      }
+    }
+
+    return matches;
+  }
+
+  private getFiles(): string[] {
+    const files = [this.filePath];
+    for (let i = 1; i <= this.maxFiles; i++) {
+      files.push(`${this.filePath}.${i}`);
+    }
+    return files;
+  }
+}
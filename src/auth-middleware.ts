@@ -1,10 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { CallerIdentity, InboundAuthenticator, InboundAuthError, getInboundAuthMethods } from './inbound-auth';
+
+/**
+ * Caller-supplied Azure DevOps credential.
+ * For PATs, token holds the base64 value used in a Basic Authorization header.
+ */
+export interface AzureDevOpsCredential {
+  type: 'pat' | 'bearer';
+  token: string;
+}
 
 export interface AuthenticationContext {
+  // Identity of the caller of the wrapper, set by inbound authentication
+  caller?: CallerIdentity;
   azureDevOpsOrg?: string;
+  azureDevOpsCredential?: AzureDevOpsCredential;
   // HTTP transport configuration
   mcpServerUrl?: string;
   mcpTransportType?: 'stdio' | 'http';
+  // Upstream domains to enable (-d), normalized; undefined enables the server's default set
+  mcpDomains?: string[];
 }
 
 // Extend Express Request interface to include authentication context
@@ -17,14 +33,21 @@ declare global {
 }
 
 /**
- * Middleware to extract Azure DevOps configuration from environment
- * Uses Azure CLI for authentication
+ * Middleware to extract Azure DevOps configuration from headers and environment
+ * Callers may supply their own PAT or Entra bearer token; otherwise the
+ * container identity (Azure CLI or AZURE_DEVOPS_TOKEN) is used
  */
 export function extractAuthenticationMiddleware(req: Request, res: Response, next: NextFunction): void {
   const authContext: AuthenticationContext = {};
 
-  // Get organization from environment variable
-  authContext.azureDevOpsOrg = process.env.AZURE_DEVOPS_ORG;
+  // Organization from header, falling back to environment variable
+  authContext.azureDevOpsOrg =
+    req.headers['x-azure-devops-org'] as string ||
+    process.env.AZURE_DEVOPS_ORG;
+
+  // With JWT inbound auth, Authorization carries the caller's JWT rather than an Azure DevOps credential
+  const useAuthorizationHeader = !getInboundAuthMethods().includes('jwt');
+  authContext.azureDevOpsCredential = extractAzureDevOpsCredential(req, useAuthorizationHeader);
 
   // Extract MCP server configuration from headers (optional for HTTP transport)
   authContext.mcpServerUrl =
@@ -36,12 +59,95 @@ export function extractAuthenticationMiddleware(req: Request, res: Response, nex
     (req.headers['mcp-transport-type'] as 'stdio' | 'http') ||
     'stdio'; // default to stdio
 
+  // Domains from header, falling back to environment variable
+  authContext.mcpDomains =
+    parseDomains(req.headers['x-mcp-domains'] as string) ||
+    parseDomains(process.env.MCP_DOMAINS);
+
   // Attach to request for use in routes
   req.authContext = authContext;
 
   next();
 }
 
+/**
+ * Create middleware that authenticates callers of the wrapper itself.
+ * Each authenticator is tried in order; with none configured every caller is anonymous.
+ * Must run after extractAuthenticationMiddleware.
+ */
+export function createInboundAuthMiddleware(authenticators: InboundAuthenticator[], publicPaths: string[] = ['/health']) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (publicPaths.includes(req.path)) {
+      return next();
+    }
+
+    if (authenticators.length === 0) {
+      req.authContext = { ...req.authContext, caller: { id: 'anonymous', type: 'anonymous' } };
+      return next();
+    }
+
+    try {
+      for (const authenticator of authenticators) {
+        const caller = await authenticator.authenticate(req);
+        if (caller) {
+          req.authContext = { ...req.authContext, caller };
+          return next();
+        }
+      }
+
+      throw new InboundAuthError(`Authentication required (${authenticators.map(a => a.name).join(', ')})`);
+    } catch (error: any) {
+      if (!(error instanceof InboundAuthError)) {
+        return next(error);
+      }
+
+      res.status(401).json({
+        error: {
+          message: error.message,
+          statusCode: 401,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Extract the caller's Azure DevOps credential from request headers.
+ * Dedicated headers take precedence over Authorization.
+ */
+export function extractAzureDevOpsCredential(req: Request, useAuthorizationHeader: boolean = true): AzureDevOpsCredential | undefined {
+  const pat = req.headers['x-azure-devops-pat'] as string;
+  if (pat) {
+    return { type: 'pat', token: encodePersonalAccessToken(pat) };
+  }
+
+  const token = req.headers['x-azure-devops-token'] as string;
+  if (token) {
+    return { type: 'bearer', token };
+  }
+
+  const authorization = req.headers['authorization'];
+  if (authorization && useAuthorizationHeader) {
+    const [scheme, value] = authorization.split(' ', 2);
+    if (value && scheme.toLowerCase() === 'basic') {
+      return { type: 'pat', token: value };
+    }
+    if (value && scheme.toLowerCase() === 'bearer') {
+      return { type: 'bearer', token: value };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Encode a raw PAT as the base64 value Azure DevOps expects in Basic auth
+ */
+export function encodePersonalAccessToken(pat: string): string {
+  return Buffer.from(`:${pat}`).toString('base64');
+}
+
 /**
  * Middleware to validate that required configuration is present
  * Validates organization is configured (authentication handled by Azure CLI)
@@ -77,14 +183,40 @@ export function validateAuthenticationMiddleware(req: Request, res: Response, ne
 
 /**
  * Generate a cache key for the authentication context
- * Used to cache MCP client instances based on configuration
+ * Used to cache MCP client instances based on configuration and credential.
+ * The credential is represented by a hash so the raw secret never appears in the key.
  */
 export function generateAuthCacheKey(authContext: AuthenticationContext): string {
   const parts = [
     authContext.azureDevOpsOrg || '',
     authContext.mcpTransportType || 'stdio',
-    authContext.mcpServerUrl || ''
+    authContext.mcpServerUrl || '',
+    (authContext.mcpDomains || []).join(','),
+    hashCredential(authContext.azureDevOpsCredential)
   ];
 
   return parts.join('|');
-}
\ No newline at end of file
+}
+
+/**
+ * Parse a comma separated domain list (or array) into a sorted, de-duplicated, lower case list
+ */
+export function parseDomains(value?: string | string[]): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const domains = (Array.isArray(value) ? value : value.split(','))
+    .map(domain => String(domain).trim().toLowerCase())
+    .filter(Boolean);
+  return domains.length > 0 ? Array.from(new Set(domains)).sort() : undefined;
+}
+
+function hashCredential(credential?: AzureDevOpsCredential): string {
+  if (!credential) {
+    return 'default';
+  }
+
+  const digest = createHash('sha256').update(`${credential.type}:${credential.token}`).digest('hex');
+  return `${credential.type}:${digest.slice(0, 32)}`;
+}
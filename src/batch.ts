@@ -0,0 +1,283 @@
+export interface BatchStep {
+  // Used by dependsOn and references; defaults to the step's index
+  id?: string;
+  name: string;
+  arguments?: Record<string, unknown>;
+  dependsOn?: string[];
+  // Run the step once per element of the referenced array, exposed as "item" in references
+  forEach?: BatchReference;
+}
+
+/**
+ * Reference to an earlier step's output, e.g. { "$ref": "prs.json[*].pullRequestId" }.
+ * The first segment is a step id (or "item" inside forEach); the rest walks the step's
+ * output: { result, json } where json is structuredContent or the parsed first text content.
+ */
+export interface BatchReference {
+  $ref: string;
+}
+
+export interface BatchOptions {
+  // Steps running at once (default 1, i.e. in order)
+  concurrency?: number;
+  // Skip every step that has not started once one fails
+  stopOnError?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface BatchStepResult {
+  id: string;
+  toolName: string;
+  success: boolean;
+  skipped?: boolean;
+  data?: any;
+  error?: string;
+  startedAt?: string;
+  durationMs?: number;
+  [key: string]: unknown;
+}
+
+export type BatchExecutor = (toolName: string, args: Record<string, unknown>) => Promise<any>;
+
+// Maps an execution error to the extra fields reported for the step (error, pending, rule, ...)
+export type BatchErrorFormatter = (error: any) => Record<string, unknown>;
+
+/**
+ * Runs batch steps with bounded concurrency. A step starts once every step it depends on
+ * (explicitly or through a reference) has succeeded; it is skipped if one of them did not.
+ */
+export class BatchRunner {
+  constructor(private execute: BatchExecutor, private formatError: BatchErrorFormatter) {}
+
+  async run(steps: BatchStep[], options: BatchOptions = {}): Promise<BatchStepResult[]> {
+    const ids = steps.map((step, index) => step.id || String(index));
+    const dependencies = steps.map(step => getDependencies(step));
+    validateGraph(ids, dependencies);
+
+    const results: (BatchStepResult | undefined)[] = new Array(steps.length);
+    const outputs = new Map<string, unknown>();
+    const running = new Set<Promise<void>>();
+    const concurrency = Math.max(1, options.concurrency || 1);
+    let stopped = false;
+
+    const isDone = (index: number) => results[index] !== undefined;
+    const hasStarted = new Set<number>();
+
+    while (hasStarted.size < steps.length) {
+      let progressed = false;
+
+      for (let index = 0; index < steps.length && running.size < concurrency; index++) {
+        if (hasStarted.has(index)) {
+          continue;
+        }
+
+        const depIndexes = dependencies[index].map(dep => ids.indexOf(dep));
+        if (!depIndexes.every(isDone)) {
+          continue;
+        }
+
+        hasStarted.add(index);
+        progressed = true;
+
+        const failed = depIndexes.find(dep => !results[dep]!.success);
+        if (stopped || options.signal?.aborted || failed !== undefined) {
+          results[index] = {
+            id: ids[index],
+            toolName: steps[index].name,
+            success: false,
+            skipped: true,
+            error: failed !== undefined
+              ? `Dependency '${ids[failed]}' did not succeed`
+              : 'Not run: batch stopped'
+          };
+          continue;
+        }
+
+        const task = this.runStep(steps[index], ids[index], outputs).then(result => {
+          results[index] = result;
+          if (result.success) {
+            outputs.set(ids[index], result.data);
+          } else if (options.stopOnError) {
+            stopped = true;
+          }
+        });
+        running.add(task);
+        task.finally(() => running.delete(task));
+      }
+
+      if (running.size > 0) {
+        await Promise.race(running);
+      } else if (!progressed) {
+        break;
+      }
+    }
+
+    await Promise.all(running);
+    return results as BatchStepResult[];
+  }
+
+  private async runStep(step: BatchStep, id: string, outputs: Map<string, unknown>): Promise<BatchStepResult> {
+    const startedAt = new Date();
+    const finish = (fields: Partial<BatchStepResult>): BatchStepResult => ({
+      id,
+      toolName: step.name,
+      success: false,
+      ...fields,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime()
+    });
+
+    try {
+      if (!step.forEach) {
+        const data = await this.execute(step.name, resolveReferences(step.arguments || {}, outputs));
+        return finish({ success: !data?.isError, data });
+      }
+
+      const items = resolveReference(step.forEach.$ref, outputs);
+      if (!Array.isArray(items)) {
+        throw new Error(`forEach reference '${step.forEach.$ref}' did not resolve to an array`);
+      }
+
+      const data = [];
+      for (const item of items) {
+        const scope = new Map(outputs).set('item', item);
+        data.push(await this.execute(step.name, resolveReferences(step.arguments || {}, scope)));
+      }
+      return finish({ success: data.every(result => !result?.isError), data });
+    } catch (error: any) {
+      return finish(this.formatError(error));
+    }
+  }
+}
+
+/**
+ * Throw if the steps do not form a valid graph: duplicate ids, unknown dependencies or cycles
+ */
+export function validateBatch(steps: BatchStep[]): void {
+  validateGraph(steps.map((step, index) => step.id || String(index)), steps.map(step => getDependencies(step)));
+}
+
+/**
+ * Explicit dependsOn plus every step referenced from arguments or forEach
+ */
+function getDependencies(step: BatchStep): string[] {
+  const dependencies = new Set(step.dependsOn || []);
+  collectReferences(step.arguments, ref => dependencies.add(ref));
+  if (step.forEach) {
+    dependencies.add(parseReference(step.forEach.$ref).stepId);
+  }
+  dependencies.delete('item');
+  return Array.from(dependencies);
+}
+
+function collectReferences(value: unknown, add: (stepId: string) => void): void {
+  if (isReference(value)) {
+    add(parseReference(value.$ref).stepId);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, add));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectReferences(item, add));
+  }
+}
+
+function validateGraph(ids: string[], dependencies: string[][]): void {
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Batch step ids must be unique');
+  }
+
+  dependencies.forEach((deps, index) => {
+    const unknown = deps.find(dep => !ids.includes(dep));
+    if (unknown) {
+      throw new Error(`Step '${ids[index]}' depends on unknown step '${unknown}'`);
+    }
+  });
+
+  // Kahn's algorithm: anything left unvisited is part of a cycle
+  const remaining = new Map(ids.map((id, index) => [id, new Set(dependencies[index])]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [id, deps] of remaining) {
+      if (Array.from(deps).every(dep => !remaining.has(dep))) {
+        remaining.delete(id);
+        changed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) {
+    throw new Error(`Dependency cycle between steps: ${Array.from(remaining.keys()).join(', ')}`);
+  }
+}
+
+function isReference(value: unknown): value is BatchReference {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    typeof (value as BatchReference).$ref === 'string' && Object.keys(value).length === 1;
+}
+
+function resolveReferences(value: unknown, outputs: Map<string, unknown>): any {
+  if (isReference(value)) {
+    return resolveReference(value.$ref, outputs);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, outputs));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, outputs)]));
+  }
+  return value;
+}
+
+function parseReference(ref: string): { stepId: string; segments: string[] } {
+  const [stepId, ...segments] = ref.match(/[^.[\]]+|\[(?:\d+|\*)\]/g) || [];
+  if (!stepId) {
+    throw new Error(`Invalid reference '${ref}'`);
+  }
+  return { stepId, segments };
+}
+
+function resolveReference(ref: string, outputs: Map<string, unknown>): unknown {
+  const { stepId, segments } = parseReference(ref);
+  if (!outputs.has(stepId)) {
+    throw new Error(`Reference '${ref}' points at step '${stepId}' which has no output`);
+  }
+
+  const output = outputs.get(stepId);
+  const root = stepId === 'item' ? output : { result: output, json: toJson(output) };
+  return walk(root, segments);
+}
+
+function walk(value: any, segments: string[]): unknown {
+  if (segments.length === 0 || value === undefined) {
+    return value;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === '[*]') {
+    return Array.isArray(value) ? value.flatMap(item => {
+      const resolved = walk(item, rest);
+      return rest.includes('[*]') && Array.isArray(resolved) ? resolved : [resolved];
+    }) : undefined;
+  }
+
+  const key = segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment;
+  return walk(value?.[key], rest);
+}
+
+/**
+ * Structured output of a tool result: structuredContent, or its first text content parsed as JSON
+ */
+function toJson(result: any): unknown {
+  if (result?.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+
+  const text = result?.content?.find((item: any) => item.type === 'text')?.text;
+  if (typeof text !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
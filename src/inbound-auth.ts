@@ -0,0 +1,186 @@
+import { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import { createLocalJWKSet, jwtVerify, JWTPayload } from 'jose';
+import { logger } from './logger';
+
+/**
+ * Identity of the caller of the wrapper itself (not the Azure DevOps identity)
+ */
+export interface CallerIdentity {
+  id: string;
+  type: 'api-key' | 'jwt' | 'anonymous';
+  label?: string;
+  claims?: JWTPayload;
+}
+
+/**
+ * An inbound authentication method.
+ * Returns undefined when the request carries no credentials for this method,
+ * throws InboundAuthError when it carries invalid ones.
+ */
+export interface InboundAuthenticator {
+  readonly name: string;
+  authenticate(req: Request): Promise<CallerIdentity | undefined>;
+}
+
+export class InboundAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InboundAuthError';
+  }
+}
+
+interface ApiKeyEntry {
+  id?: string;
+  label: string;
+  // "sha256:<hex>" digest of the key
+  hash: string;
+  expiresAt?: string;
+}
+
+/**
+ * Static API keys from a JSON config file: { "keys": [{ "label", "hash", "expiresAt" }] }
+ * Keys are stored hashed; the raw key is only ever seen in the X-API-Key header.
+ */
+export class ApiKeyAuthenticator implements InboundAuthenticator {
+  readonly name = 'api-key';
+  private keys: ApiKeyEntry[];
+
+  constructor(configPath: string) {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    this.keys = Array.isArray(config.keys) ? config.keys : [];
+    logger.info('Loaded API keys', { count: this.keys.length, file: configPath });
+  }
+
+  async authenticate(req: Request): Promise<CallerIdentity | undefined> {
+    const apiKey = req.headers['x-api-key'] as string;
+    if (!apiKey) {
+      return undefined;
+    }
+
+    const digest = Buffer.from(hashApiKey(apiKey));
+    const entry = this.keys.find(key => {
+      const expected = Buffer.from(key.hash);
+      return expected.length === digest.length && timingSafeEqual(expected, digest);
+    });
+
+    if (!entry) {
+      throw new InboundAuthError('Invalid API key');
+    }
+
+    if (entry.expiresAt && new Date(entry.expiresAt) < new Date()) {
+      throw new InboundAuthError(`API key '${entry.label}' has expired`);
+    }
+
+    return {
+      id: entry.id || `api-key:${entry.label}`,
+      type: 'api-key',
+      label: entry.label
+    };
+  }
+}
+
+export interface JwtAuthenticatorOptions {
+  jwksPath: string;
+  issuer?: string;
+  audience?: string;
+  identityClaim?: string;
+}
+
+/**
+ * JWT bearer tokens validated against a locally configured JWKS file
+ */
+export class JwtAuthenticator implements InboundAuthenticator {
+  readonly name = 'jwt';
+  private jwks: ReturnType<typeof createLocalJWKSet>;
+
+  constructor(private options: JwtAuthenticatorOptions) {
+    this.jwks = createLocalJWKSet(JSON.parse(fs.readFileSync(options.jwksPath, 'utf8')));
+    logger.info('Loaded JWKS', { file: options.jwksPath });
+  }
+
+  async authenticate(req: Request): Promise<CallerIdentity | undefined> {
+    const authorization = req.headers['authorization'];
+    if (!authorization) {
+      return undefined;
+    }
+
+    const [scheme, token] = authorization.split(' ', 2);
+    if (scheme.toLowerCase() !== 'bearer' || !token) {
+      return undefined;
+    }
+
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, this.jwks, {
+        issuer: this.options.issuer,
+        audience: this.options.audience
+      }));
+    } catch (error: any) {
+      throw new InboundAuthError(`Invalid JWT: ${error.message}`);
+    }
+
+    const identityClaim = this.options.identityClaim || 'sub';
+    const id = payload[identityClaim];
+    if (typeof id !== 'string' || !id) {
+      throw new InboundAuthError(`JWT is missing the '${identityClaim}' claim`);
+    }
+
+    return {
+      id,
+      type: 'jwt',
+      label: typeof payload.name === 'string' ? payload.name : undefined,
+      claims: payload
+    };
+  }
+}
+
+/**
+ * Inbound authentication methods enabled via INBOUND_AUTH (comma separated: api-key, jwt)
+ */
+export function getInboundAuthMethods(): string[] {
+  return (process.env.INBOUND_AUTH || '')
+    .split(',')
+    .map(method => method.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Create the configured inbound authenticators from environment variables
+ */
+export function createInboundAuthenticators(): InboundAuthenticator[] {
+  const authenticators: InboundAuthenticator[] = [];
+
+  for (const method of getInboundAuthMethods()) {
+    switch (method) {
+      case 'api-key':
+        authenticators.push(new ApiKeyAuthenticator(process.env.API_KEYS_FILE || 'config/api-keys.json'));
+        break;
+
+      case 'jwt':
+        if (!process.env.JWT_JWKS_FILE) {
+          throw new Error('JWT_JWKS_FILE is required when INBOUND_AUTH includes jwt');
+        }
+        authenticators.push(new JwtAuthenticator({
+          jwksPath: process.env.JWT_JWKS_FILE,
+          issuer: process.env.JWT_ISSUER,
+          audience: process.env.JWT_AUDIENCE,
+          identityClaim: process.env.JWT_IDENTITY_CLAIM
+        }));
+        break;
+
+      default:
+        throw new Error(`Unknown inbound authentication method '${method}'`);
+    }
+  }
+
+  return authenticators;
+}
+
+/**
+ * Hash an API key in the format stored in the API keys file
+ */
+export function hashApiKey(apiKey: string): string {
+  return `sha256:${createHash('sha256').update(apiKey).digest('hex')}`;
+}
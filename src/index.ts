@@ -1,17 +1,18 @@
 import Server from './server';
+import { logger } from './logger';
 
 const server = new Server();
 
 // Graceful shutdown handling
 const gracefulShutdown = async (signal: string) => {
-  console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
+  logger.info('Starting graceful shutdown', { signal });
   
   try {
     await server.stop();
-    console.log('✅ Server shutdown complete');
+    logger.info('Server shutdown complete');
     process.exit(0);
   } catch (error) {
-    console.error('❌ Error during shutdown:', error);
+    logger.error('Error during shutdown', { error });
     process.exit(1);
   }
 };
@@ -22,17 +23,17 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
-  console.error('❌ Uncaught Exception:', error);
+  logger.error('Uncaught exception', { error });
   process.exit(1);
 });
 
 process.on('unhandledRejection', (reason, promise) => {
-  console.error('❌ Unhandled Rejection at:', promise, 'reason:', reason);
+  logger.error('Unhandled rejection', { error: reason });
   process.exit(1);
 });
 
 // Start the server
 server.start().catch((error) => {
-  console.error('❌ Failed to start server:', error);
+  logger.error('Failed to start server', { error });
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { randomUUID, createHmac } from 'crypto';
+import { logger } from './logger';
+import { jobsTotal } from './metrics';
+
+export type JobKind = 'call' | 'batch';
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  toolName?: string;
+  caller?: string;
+  organization?: string;
+  webhookUrl?: string;
+  createdAt: string;
+  completedAt?: string;
+  durationMs?: number;
+  result?: any;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export interface JobOptions {
+  kind: JobKind;
+  toolName?: string;
+  caller?: string;
+  organization?: string;
+  webhookUrl?: string;
+}
+
+/**
+ * Thrown when a job cannot be submitted (too many running, disallowed webhook)
+ */
+export class JobRejectedError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'JobRejectedError';
+  }
+}
+
+/**
+ * Background tool calls and batches for callers that cannot hold a request open.
+ * Jobs live in memory (they carry the caller's credential) and are dropped
+ * JOB_RETENTION_MS after they finish.
+ */
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private maxActive: number;
+  private retentionMs: number;
+  private webhookHosts: string[];
+  private webhookSecret?: string;
+
+  // Maps a failure to the fields stored on the job (error, rule, violations, ...)
+  constructor(private formatError: (error: any) => Record<string, unknown>) {
+    this.maxActive = parseInt(process.env.JOB_MAX_ACTIVE || '50', 10);
+    this.retentionMs = parseInt(process.env.JOB_RETENTION_MS || '3600000', 10);
+    this.webhookHosts = (process.env.JOB_WEBHOOK_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+    this.webhookSecret = process.env.JOB_WEBHOOK_SECRET || undefined;
+  }
+
+  /**
+   * Start work in the background and return the job immediately
+   */
+  submit(options: JobOptions, work: (signal: AbortSignal) => Promise<any>): Job {
+    if (this.controllers.size >= this.maxActive) {
+      throw new JobRejectedError(`Too many running jobs (limit ${this.maxActive})`, 429);
+    }
+    if (options.webhookUrl) {
+      this.assertWebhookAllowed(options.webhookUrl);
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      status: 'running',
+      ...options,
+      createdAt: new Date().toISOString()
+    };
+    const controller = new AbortController();
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, controller);
+
+    logger.info('Job started', { jobId: job.id, kind: job.kind, tool: job.toolName, caller: job.caller });
+
+    work(controller.signal).then(
+      result => this.finish(job, { status: 'succeeded', result }),
+      error => this.finish(job, { status: 'failed', ...this.formatError(error) })
+    );
+
+    return job;
+  }
+
+  /**
+   * Jobs visible to a caller; callers only see their own
+   */
+  get(id: string, caller?: string): Job | undefined {
+    const job = this.jobs.get(id);
+    return job && job.caller === caller ? job : undefined;
+  }
+
+  list(caller?: string): Job[] {
+    return Array.from(this.jobs.values()).filter(job => job.caller === caller);
+  }
+
+  /**
+   * Abort a running job; the upstream call receives notifications/cancelled
+   */
+  cancel(id: string): Job {
+    const job = this.jobs.get(id);
+    const controller = this.controllers.get(id);
+    if (!job || !controller) {
+      throw new Error(`Job ${id} is already ${job?.status ?? 'gone'}`);
+    }
+
+    this.finish(job, { status: 'cancelled', error: 'Job cancelled' });
+    controller.abort(new Error('Job cancelled'));
+    return job;
+  }
+
+  /**
+   * Drop finished jobs older than the retention period
+   */
+  cleanupExpiredJobs(): number {
+    const cutoff = Date.now() - this.retentionMs;
+    let removed = 0;
+
+    for (const [id, job] of this.jobs) {
+      if (job.completedAt && new Date(job.completedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('Cleaned up expired jobs', { count: removed });
+    }
+    return removed;
+  }
+
+  /**
+   * Cancel every running job (shutdown)
+   */
+  cleanup(): void {
+    for (const id of Array.from(this.controllers.keys())) {
+      this.cancel(id);
+    }
+  }
+
+  private finish(job: Job, outcome: Partial<Job>): void {
+    // A cancelled job ignores the outcome of the work it aborted
+    if (!this.controllers.delete(job.id)) {
+      return;
+    }
+
+    const completedAt = new Date();
+    Object.assign(job, outcome, {
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - new Date(job.createdAt).getTime()
+    });
+    jobsTotal.inc({ kind: job.kind, status: job.status });
+    logger.info('Job finished', { jobId: job.id, status: job.status, durationMs: job.durationMs });
+
+    if (job.webhookUrl) {
+      this.notifyWebhook(job);
+    }
+  }
+
+  private assertWebhookAllowed(webhookUrl: string): void {
+    let url: URL;
+    try {
+      url = new URL(webhookUrl);
+    } catch {
+      throw new JobRejectedError(`Invalid webhookUrl '${webhookUrl}'`, 400);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new JobRejectedError('webhookUrl must be http or https', 400);
+    }
+    // Callers choose the URL, so only hosts the operator listed are ever contacted
+    if (this.webhookHosts.length === 0) {
+      throw new JobRejectedError('Job webhooks are disabled (set JOB_WEBHOOK_HOSTS to allow them)', 400);
+    }
+    if (!this.webhookHosts.includes(url.hostname.toLowerCase())) {
+      throw new JobRejectedError(`Webhook host '${url.hostname}' is not allowed (JOB_WEBHOOK_HOSTS)`, 400);
+    }
+  }
+
+  /**
+   * POST the finished job to its webhook; signed with JOB_WEBHOOK_SECRET when set
+   */
+  private notifyWebhook(job: Job): void {
+    const body = JSON.stringify(job);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.webhookSecret) {
+      headers['X-Webhook-Signature'] = `sha256=${createHmac('sha256', this.webhookSecret).update(body).digest('hex')}`;
+    }
+
+    fetch(job.webhookUrl!, { method: 'POST', headers, body, signal: AbortSignal.timeout(10000) })
+      .then(response => {
+        if (!response.ok) {
+          logger.warn('Job webhook rejected', { jobId: job.id, status: response.status });
+        }
+      })
+      .catch(error => logger.warn('Job webhook failed', { jobId: job.id, error }));
+  }
+}
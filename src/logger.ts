@@ -0,0 +1,108 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { redact, redactString } from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+interface RequestContext {
+  requestId: string;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with a request ID attached to every log record written inside it
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Leveled JSON logger. Every record is one line of JSON; fields and messages
+ * pass through the redaction layer before they are written.
+ */
+export class Logger {
+  constructor(private fields: LogFields = {}) {}
+
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[getConfiguredLevel()];
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const record = redact({
+      timestamp: new Date().toISOString(),
+      level,
+      msg: redactString(message),
+      requestId: getRequestId(),
+      ...this.fields,
+      ...serializeErrors(fields)
+    });
+
+    const line = JSON.stringify(record) + '\n';
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+function getConfiguredLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return level in LEVELS ? level : 'info';
+}
+
+/**
+ * Errors do not serialize to JSON; turn them into plain objects
+ */
+function serializeErrors(fields?: LogFields): LogFields {
+  if (!fields) {
+    return {};
+  }
+
+  const result: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    result[key] = value instanceof Error
+      ? { name: value.name, message: value.message, stack: value.stack }
+      : value;
+  }
+  return result;
+}
+
+export const logger = new Logger();
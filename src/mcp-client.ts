@@ -1,35 +1,194 @@
+import path from 'path';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { AuthenticationContext, generateAuthCacheKey } from './auth-middleware';
+import {
+  CompleteRequest,
+  ErrorCode,
+  GetPromptRequest,
+  ListPromptsRequest,
+  ListResourcesRequest,
+  ListResourceTemplatesRequest,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  McpError,
+  Progress,
+  ReadResourceRequest,
+  ServerCapabilities,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { AuthenticationContext, generateAuthCacheKey, parseDomains } from './auth-middleware';
+import { PolicyDecision, PolicyDeniedError, PolicyEngine, loadPolicyEngine } from './policy';
+import { ApprovalPendingError, ApprovalRequest, ApprovalStatus, ApprovalStore } from './approvals';
+import { AuditEntry, AuditLog, AuditOutcome, AuditQuery, AuditSource } from './audit';
+import { CallerIdentity } from './inbound-auth';
+import { ArgumentValidationError, ArgumentValidator } from './validation';
+import { CacheStatus, ResponseCache } from './response-cache';
+import { RateLimitedError, RateLimiter } from './rate-limit';
+import { logger } from './logger';
+import {
+  toolCacheLookupsTotal,
+  toolCallDuration,
+  toolCallsTotal,
+  upstreamClientEvictionsTotal,
+  upstreamClientSpawnDuration,
+  upstreamClientsActive
+} from './metrics';
 
 export interface MCPTool {
   name: string;
   description?: string;
   inputSchema: any;
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+export interface CallToolOptions {
+  // Resume (or poll) a call previously parked for approval
+  approvalId?: string;
+  // Where the call came from, for the audit log
+  source?: AuditSource;
+  // Aborting sends notifications/cancelled upstream (caller disconnected or cancelled)
+  signal?: AbortSignal;
+  // Progress and log notifications from the upstream server while the call runs
+  onProgress?: (progress: Progress) => void;
+  onLog?: (message: LoggingMessageNotification['params']) => void;
+  // Coerce string arguments (e.g. from a query string) to the types in the tool's inputSchema
+  coerceTypes?: boolean;
+  // Skip the response cache lookup (Cache-Control: no-cache); the fresh result is still cached
+  noCache?: boolean;
+  // Whether the result came from the response cache
+  onCacheStatus?: (status: CacheStatus) => void;
+}
+
+export interface PooledClientInfo {
+  key: string;
+  transport: 'stdio' | 'http';
+  organization?: string;
+  createdAt: string;
+  lastUsed: string;
+  ageSeconds: number;
+  inFlight: number;
+  queued: number;
+  toolCount: number;
 }
 
 interface MCPClientInstance {
   client: Client;
   transport: StdioClientTransport | StreamableHTTPClientTransport;
   tools: MCPTool[];
+  capabilities: ServerCapabilities;
   isInitialized: boolean;
+  createdAt: Date;
   lastUsed: Date;
+  // Calls currently running upstream, and callers waiting for a slot
+  inFlight: number;
+  queue: Array<() => void>;
+  // Log notifications are not tied to a request; they go to every call that asked for them
+  logListeners: Set<(message: LoggingMessageNotification['params']) => void>;
+  // Kept so a dropped client can be recreated with the same credentials
+  authContext: AuthenticationContext;
+  cacheKey: string;
+  // Set when the wrapper closes the client itself, so no reconnect is attempted
+  closing?: boolean;
+  // Warm clients are never evicted for being idle or least recently used
+  pinned?: boolean;
+}
+
+interface ServerCommand {
+  command: string;
+  args: string[];
 }
 
 export class MCPClientManager {
   private clients: Map<string, MCPClientInstance> = new Map();
+  // In-flight creations, so concurrent requests for the same key share one upstream
+  private pendingClients: Map<string, Promise<MCPClientInstance>> = new Map();
+  // Pool slots held by clients that are still starting, so concurrent creations cannot exceed MCP_MAX_CLIENTS
+  private reservedSlots = 0;
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Keys of warmed clients, so a client recreated after a crash or failed health check stays pinned
+  private pinnedKeys: Set<string> = new Set();
+  private requireCallerCredentials: boolean;
+  private startupTimeoutMs: number;
+  private maxReconnectAttempts: number;
+  private maxClients: number;
+  private maxConcurrentCalls: number;
+  private serverCommand: ServerCommand;
+  private toolsChangedListeners: Array<(cacheKey: string) => void> = [];
+  private policy: PolicyEngine;
+  private approvals: ApprovalStore;
+  private audit: AuditLog;
+  private validator: ArgumentValidator = new ArgumentValidator();
+  private responseCache: ResponseCache = new ResponseCache();
+  private rateLimiter: RateLimiter;
+
+  constructor(
+    policy: PolicyEngine = loadPolicyEngine(),
+    approvals: ApprovalStore = new ApprovalStore(),
+    audit: AuditLog = new AuditLog()
+  ) {
+    this.policy = policy;
+    this.approvals = approvals;
+    this.audit = audit;
+    this.rateLimiter = new RateLimiter(policy.getRateLimits());
+
+    // When enabled, the container identity is never used on behalf of a caller
+    this.requireCallerCredentials =
+      process.env.REQUIRE_CALLER_CREDENTIALS === 'true' || process.env.REQUIRE_CALLER_CREDENTIALS === '1';
+
+    // Covers spawning the server, the MCP handshake and the first tools/list
+    this.startupTimeoutMs = parseInt(process.env.MCP_STARTUP_TIMEOUT_MS || '120000', 10);
+    this.maxReconnectAttempts = parseInt(process.env.MCP_RECONNECT_MAX_ATTEMPTS || '5', 10);
+
+    // Every pooled client is a child process (stdio) or connection (http)
+    this.maxClients = parseInt(process.env.MCP_MAX_CLIENTS || '20', 10);
+    this.maxConcurrentCalls = parseInt(process.env.MCP_MAX_CONCURRENT_CALLS || '4', 10);
 
-  constructor() {
-    // No default authentication manager needed
+    this.serverCommand = resolveServerCommand();
+    logger.info('Resolved stdio MCP server command', { command: this.serverCommand.command, args: this.serverCommand.args });
   }
 
   /**
    * Initialize - no default client since we only support header auth
    */
   async initialize(): Promise<void> {
-    console.log('🔧 Initializing Azure DevOps MCP client manager...');
-    console.log('⚠️ Authentication via Azure CLI - ensure "az login" is completed');
+    logger.info('Initializing Azure DevOps MCP client manager');
+    if (!this.requireCallerCredentials) {
+      logger.info('Requests without caller credentials use the container identity - ensure "az login" is completed');
+    }
+  }
+
+  /**
+   * Start clients for the given organizations with the container identity and keep them
+   * pinned, so the first request for them does not pay the server startup cost
+   */
+  async warmUp(organizations: string[]): Promise<void> {
+    // Resolve domains the way requests without X-MCP-Domains are, so they share the warm clients
+    const decision = this.policy.resolveDomains(parseDomains(process.env.MCP_DOMAINS));
+    if (!decision.allowed) {
+      logger.error('Not warming MCP clients: domain selection denied by policy', { reason: decision.reason, rule: decision.rule });
+      return;
+    }
+
+    await Promise.all(organizations.map(async organization => {
+      const authContext: AuthenticationContext = {
+        azureDevOpsOrg: organization,
+        mcpTransportType: 'stdio',
+        mcpDomains: decision.domains
+      };
+      this.pinnedKeys.add(generateAuthCacheKey(authContext));
+
+      try {
+        const clientInstance = await this.getOrCreateClient(authContext);
+        logger.info('Warm MCP client ready', { organization, toolCount: clientInstance.tools.length });
+      } catch (error) {
+        logger.error('Failed to warm MCP client', { organization, error });
+      }
+    }));
   }
 
   /**
@@ -40,20 +199,66 @@ export class MCPClientManager {
       throw new Error('Missing required Azure DevOps organization');
     }
 
+    if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(authContext.azureDevOpsOrg)) {
+      throw new Error(`Invalid Azure DevOps organization name '${authContext.azureDevOpsOrg}'`);
+    }
+
+    const invalidDomain = authContext.mcpDomains?.find(domain => !/^[a-z][a-z0-9-]*$/.test(domain));
+    if (invalidDomain) {
+      throw new Error(`Invalid MCP domain '${invalidDomain}'`);
+    }
+
+    if (this.requireCallerCredentials && !authContext.azureDevOpsCredential) {
+      throw new Error('Azure DevOps credentials are required. Provide a PAT (X-Azure-DevOps-PAT or Authorization: Basic) or Entra token (X-Azure-DevOps-Token or Authorization: Bearer)');
+    }
+
     const cacheKey = generateAuthCacheKey(authContext);
     
     // Check if we already have a client for this auth context
-    let clientInstance = this.clients.get(cacheKey);
+    const clientInstance = this.clients.get(cacheKey);
     if (clientInstance && clientInstance.isInitialized) {
       clientInstance.lastUsed = new Date();
+      // Map order doubles as LRU order: most recently used last
+      this.clients.delete(cacheKey);
+      this.clients.set(cacheKey, clientInstance);
       return clientInstance;
     }
 
-    // Create new client based on transport type
-    if (authContext.mcpTransportType === 'http') {
-      return await this.createHttpClient(authContext, cacheKey);
-    } else {
-      return await this.createStdioClient(authContext, cacheKey);
+    const pending = this.pendingClients.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const creation = this.createClient(authContext, cacheKey);
+    this.pendingClients.set(cacheKey, creation);
+    try {
+      return await creation;
+    } finally {
+      this.pendingClients.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Create a new client based on transport type
+   */
+  private async createClient(authContext: AuthenticationContext, cacheKey: string): Promise<MCPClientInstance> {
+    const transport = authContext.mcpTransportType === 'http' ? 'http' : 'stdio';
+    await this.reservePoolSlot();
+
+    const endTimer = upstreamClientSpawnDuration.startTimer({ transport });
+    try {
+      const clientInstance = transport === 'http'
+        ? await this.createHttpClient(authContext, cacheKey)
+        : await this.createStdioClient(authContext, cacheKey);
+      clientInstance.pinned = this.pinnedKeys.has(cacheKey);
+      endTimer({ outcome: 'success' });
+      return clientInstance;
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      throw error;
+    } finally {
+      this.reservedSlots--;
+      upstreamClientsActive.set(this.clients.size);
     }
   }
 
@@ -62,14 +267,24 @@ export class MCPClientManager {
       throw new Error('MCP server URL is required for HTTP transport');
     }
 
-    console.log(`🌐 Creating HTTP MCP client for ${authContext.azureDevOpsOrg} -> ${authContext.mcpServerUrl}`);
+    logger.info('Creating HTTP MCP client', { organization: authContext.azureDevOpsOrg, url: authContext.mcpServerUrl });
+
+    const headers: Record<string, string> = {
+      'X-Azure-DevOps-Org': authContext.azureDevOpsOrg!,
+    };
+
+    // Forward the caller's credential to the upstream server
+    const credential = authContext.azureDevOpsCredential;
+    if (credential) {
+      headers['Authorization'] = credential.type === 'pat'
+        ? `Basic ${credential.token}`
+        : `Bearer ${credential.token}`;
+    }
 
     // Create HTTP transport
     const transport = new StreamableHTTPClientTransport(new URL(authContext.mcpServerUrl), {
       requestInit: {
-        headers: {
-          'X-Azure-DevOps-Org': authContext.azureDevOpsOrg!,
-        }
+        headers
       }
     });
 
@@ -85,33 +300,33 @@ export class MCPClientManager {
     );
 
     try {
-      // Connect to the MCP server
-      await client.connect(transport);
-      console.log(`✅ Connected to HTTP MCP server at ${authContext.mcpServerUrl} for ${authContext.azureDevOpsOrg}`);
-
-      // Wait for connection to stabilize
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Load tools
-      const tools = await this.loadToolsForClient(client);
+      const tools = await this.connectUntilReady(client, transport, authContext.azureDevOpsOrg!);
 
       // Create client instance
-      const clientInstance = {
+      const clientInstance: MCPClientInstance = {
         client,
         transport,
         tools,
+        capabilities: client.getServerCapabilities() || {},
         isInitialized: true,
-        lastUsed: new Date()
+        createdAt: new Date(),
+        lastUsed: new Date(),
+        inFlight: 0,
+        queue: [],
+        logListeners: new Set(),
+        authContext,
+        cacheKey
       };
 
       // Cache the client
       this.clients.set(cacheKey, clientInstance);
+      this.watchClient(clientInstance);
       
-      console.log(`🎯 HTTP client for ${authContext.azureDevOpsOrg} loaded with ${tools.length} tools`);
+      logger.info('HTTP MCP client ready', { organization: authContext.azureDevOpsOrg, toolCount: tools.length });
       
       return clientInstance;
     } catch (error) {
-      console.error(`Failed to initialize HTTP MCP client for ${authContext.azureDevOpsOrg}:`, error);
+      logger.error('Failed to initialize HTTP MCP client', { organization: authContext.azureDevOpsOrg, error });
       // Clean up on failure
       try {
         await client.close();
@@ -123,19 +338,16 @@ export class MCPClientManager {
   }
 
   private async createStdioClient(authContext: AuthenticationContext, cacheKey: string): Promise<MCPClientInstance> {
-    console.log(`🔧 Creating STDIO MCP client for organization: ${authContext.azureDevOpsOrg}`);
+    logger.info('Creating STDIO MCP client', { organization: authContext.azureDevOpsOrg });
     
     // Build command arguments
-    const args = ['-y', '-p', '@azure-devops/mcp', 'mcp-server-azuredevops', authContext.azureDevOpsOrg!];
+    const args = [...this.serverCommand.args, authContext.azureDevOpsOrg!];
     
     // Add domains if specified
-    const domains = process.env.MCP_DOMAINS?.split(',').map((d: string) => d.trim()).filter(Boolean);
-    if (domains && domains.length > 0) {
-      args.push('-d', ...domains);
+    if (authContext.mcpDomains && authContext.mcpDomains.length > 0) {
+      args.push('-d', ...authContext.mcpDomains);
     }
 
-    console.log(`📦 Starting MCP server with command: npx ${args.join(' ')}`);
-
     // Create environment with authentication context
     const environment: any = {
       ...process.env,
@@ -145,19 +357,37 @@ export class MCPClientManager {
       NPM_CONFIG_AUDIT: 'false'
     };
 
-    // Azure authentication - support both CLI and PAT
-    // Add PAT token to environment if available for fallback
-    if (authContext.azureDevOpsOrg && process.env.AZURE_DEVOPS_TOKEN) {
+    const credential = authContext.azureDevOpsCredential;
+    if (credential) {
+      // Caller credentials - never inherit the container's own tokens
+      delete environment.AZURE_DEVOPS_TOKEN;
+      delete environment.PERSONAL_ACCESS_TOKEN;
+      delete environment.ADO_MCP_AUTH_TOKEN;
+
+      if (credential.type === 'pat') {
+        args.push('-a', 'pat');
+        environment.PERSONAL_ACCESS_TOKEN = credential.token;
+        logger.info('Using caller PAT authentication for MCP server');
+      } else {
+        args.push('-a', 'envvar');
+        environment.ADO_MCP_AUTH_TOKEN = credential.token;
+        logger.info('Using caller bearer token authentication for MCP server');
+      }
+    } else if (authContext.azureDevOpsOrg && process.env.AZURE_DEVOPS_TOKEN) {
+      // Azure authentication - support both CLI and PAT
+      // Add PAT token to environment if available for fallback
       environment.AZURE_DEVOPS_TOKEN = process.env.AZURE_DEVOPS_TOKEN;
       environment.AZURE_DEVOPS_ORG = authContext.azureDevOpsOrg;
-      console.log('🔑 Using PAT token authentication for MCP server');
+      logger.info('Using PAT token authentication for MCP server');
     } else {
-      console.log('🔑 Using Azure CLI authentication for MCP server');
+      logger.info('Using Azure CLI authentication for MCP server');
     }
 
+    logger.debug('Starting MCP server', { command: this.serverCommand.command, args });
+
     // Create transport
     const transport = new StdioClientTransport({
-      command: 'npx',
+      command: this.serverCommand.command,
       args: args,
       env: environment
     });
@@ -174,33 +404,33 @@ export class MCPClientManager {
     );
 
     try {
-      // Connect to the MCP server
-      await client.connect(transport);
-      console.log(`✅ Connected to STDIO MCP server for ${authContext.azureDevOpsOrg}`);
-
-      // Wait for process to stabilize
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Load tools
-      const tools = await this.loadToolsForClient(client);
+      const tools = await this.connectUntilReady(client, transport, authContext.azureDevOpsOrg!);
 
       // Create client instance
-      const clientInstance = {
+      const clientInstance: MCPClientInstance = {
         client,
         transport,
         tools,
+        capabilities: client.getServerCapabilities() || {},
         isInitialized: true,
-        lastUsed: new Date()
+        createdAt: new Date(),
+        lastUsed: new Date(),
+        inFlight: 0,
+        queue: [],
+        logListeners: new Set(),
+        authContext,
+        cacheKey
       };
 
       // Cache the client
       this.clients.set(cacheKey, clientInstance);
+      this.watchClient(clientInstance);
       
-      console.log(`🎯 STDIO client for ${authContext.azureDevOpsOrg} loaded with ${tools.length} tools`);
+      logger.info('STDIO MCP client ready', { organization: authContext.azureDevOpsOrg, toolCount: tools.length });
       
       return clientInstance;
     } catch (error) {
-      console.error(`Failed to initialize STDIO MCP client for ${authContext.azureDevOpsOrg}:`, error);
+      logger.error('Failed to initialize STDIO MCP client', { organization: authContext.azureDevOpsOrg, error });
       // Clean up on failure
       try {
         await client.close();
@@ -211,24 +441,395 @@ export class MCPClientManager {
     }
   }
 
-  private async loadToolsForClient(client: Client): Promise<MCPTool[]> {
+  /**
+   * Make room for one more client by evicting the least recently used idle one, and hold
+   * the slot until the caller releases it; clients still starting count against the pool
+   */
+  private async reservePoolSlot(): Promise<void> {
+    while (this.clients.size + this.reservedSlots >= this.maxClients) {
+      const idle = Array.from(this.clients.values()).find(client => client.inFlight === 0 && !client.pinned);
+      if (!idle) {
+        throw new Error(`Upstream client pool is full (${this.maxClients} clients, all busy, pinned or starting)`);
+      }
+      await this.evictClient(idle.cacheKey, 'lru');
+    }
+    this.reservedSlots++;
+  }
+
+  /**
+   * Close a pooled client and remove it from the pool
+   */
+  async evictClient(cacheKey: string, reason: string = 'admin'): Promise<boolean> {
+    const clientInstance = this.clients.get(cacheKey);
+    if (!clientInstance) {
+      return false;
+    }
+
+    clientInstance.closing = true;
+    this.clients.delete(cacheKey);
+    upstreamClientEvictionsTotal.inc({ reason });
+    upstreamClientsActive.set(this.clients.size);
+
     try {
-      console.log('📋 Requesting tools list from MCP server...');
+      await clientInstance.client.close();
+    } catch (error) {
+      logger.warn('Error closing evicted client', { clientKey: cacheKey, error });
+    }
+
+    logger.info('Evicted upstream MCP client', { clientKey: cacheKey, reason });
+    return true;
+  }
+
+  getPoolStats(): PooledClientInfo[] {
+    const now = Date.now();
+    return Array.from(this.clients.values()).map(clientInstance => ({
+      key: clientInstance.cacheKey,
+      transport: clientInstance.transport instanceof StreamableHTTPClientTransport ? 'http' : 'stdio',
+      organization: clientInstance.authContext.azureDevOpsOrg,
+      createdAt: clientInstance.createdAt.toISOString(),
+      lastUsed: clientInstance.lastUsed.toISOString(),
+      ageSeconds: Math.round((now - clientInstance.createdAt.getTime()) / 1000),
+      inFlight: clientInstance.inFlight,
+      queued: clientInstance.queue.length,
+      toolCount: clientInstance.tools.length
+    }));
+  }
+
+  /**
+   * Run an upstream call once the client has a free slot (MCP_MAX_CONCURRENT_CALLS); callers queue in order.
+   * A queued caller leaves the queue when its signal aborts or it has waited timeoutMs.
+   */
+  private async withCallSlot<T>(clientInstance: MCPClientInstance, fn: () => Promise<T>, signal?: AbortSignal, timeoutMs?: number): Promise<T> {
+    signal?.throwIfAborted();
+
+    if (clientInstance.inFlight >= this.maxConcurrentCalls) {
+      // The releasing call hands its slot straight to us
+      await new Promise<void>((resolve, reject) => {
+        let timer: NodeJS.Timeout | undefined;
+        const cleanup = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        };
+        const grant = () => {
+          cleanup();
+          resolve();
+        };
+        const leave = (reason: unknown) => {
+          const index = clientInstance.queue.indexOf(grant);
+          if (index !== -1) {
+            clientInstance.queue.splice(index, 1);
+          }
+          cleanup();
+          reject(reason);
+        };
+        const onAbort = () => leave(signal!.reason);
+
+        clientInstance.queue.push(grant);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (timeoutMs) {
+          timer = setTimeout(() => leave(new McpError(ErrorCode.RequestTimeout, 'Request timed out', { timeout: timeoutMs })), timeoutMs);
+        }
+      });
+    } else {
+      clientInstance.inFlight++;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      this.releaseCallSlot(clientInstance);
+    }
+  }
+
+  private releaseCallSlot(clientInstance: MCPClientInstance): void {
+    const next = clientInstance.queue.shift();
+    if (next) {
+      next();
+    } else {
+      clientInstance.inFlight--;
+    }
+  }
+
+  /**
+   * Forward a tools/call upstream with the tool's timeout and the caller's abort signal.
+   * The SDK sends notifications/cancelled upstream when either fires.
+   */
+  private async forwardToolCall(clientInstance: MCPClientInstance, name: string, args: Record<string, unknown>, options: CallToolOptions): Promise<any> {
+    const { signal, onProgress, onLog } = options;
+    const timeout = this.policy.getTimeout(name);
+    // The timeout covers waiting for a call slot as well as the upstream call
+    const deadline = Date.now() + timeout;
+
+    if (onLog) {
+      clientInstance.logListeners.add(onLog);
+    }
+    try {
+      return await this.withCallSlot(clientInstance, () => clientInstance.client.callTool(
+        { name, arguments: args },
+        undefined,
+        // Passing onprogress makes the SDK attach a progressToken upstream
+        { timeout: Math.max(1, deadline - Date.now()), signal, onprogress: onProgress }
+      ), signal, timeout);
+    } catch (error: any) {
+      if (error?.code === ErrorCode.RequestTimeout && !signal?.aborted) {
+        throw new McpError(ErrorCode.RequestTimeout, `Tool '${name}' timed out after ${timeout}ms`, { tool: name, timeoutMs: timeout });
+      }
+      throw error;
+    } finally {
+      if (onLog) {
+        clientInstance.logListeners.delete(onLog);
+      }
+    }
+  }
+
+  /**
+   * Drop the client from the cache as soon as its transport closes and reconnect in the background
+   */
+  private watchClient(clientInstance: MCPClientInstance): void {
+    clientInstance.client.onclose = () => this.handleClientClosed(clientInstance);
+    clientInstance.client.onerror = (error) => {
+      logger.warn('Upstream MCP transport error', { clientKey: clientInstance.cacheKey, error });
+    };
+    clientInstance.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      logger.info('Upstream tool list changed', { clientKey: clientInstance.cacheKey });
+      try {
+        await this.reloadTools(clientInstance);
+      } catch (error) {
+        logger.error('Failed to refresh tools after list change', { clientKey: clientInstance.cacheKey, error });
+      }
+    });
+    clientInstance.client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      logger.debug('Upstream MCP log message', { clientKey: clientInstance.cacheKey, level: notification.params.level });
+      for (const listener of clientInstance.logListeners) {
+        listener(notification.params);
+      }
+    });
+  }
+
+  private handleClientClosed(clientInstance: MCPClientInstance): void {
+    if (clientInstance.closing || !clientInstance.isInitialized) {
+      return;
+    }
+
+    clientInstance.isInitialized = false;
+    if (this.clients.get(clientInstance.cacheKey) === clientInstance) {
+      this.clients.delete(clientInstance.cacheKey);
+      upstreamClientEvictionsTotal.inc({ reason: 'disconnected' });
+      upstreamClientsActive.set(this.clients.size);
+    }
+
+    logger.warn('Upstream MCP client disconnected', {
+      clientKey: clientInstance.cacheKey,
+      organization: clientInstance.authContext.azureDevOpsOrg
+    });
+    this.scheduleReconnect(clientInstance.authContext, clientInstance.cacheKey, 0);
+  }
+
+  /**
+   * Recreate a dropped client with exponential backoff (1s, 2s, 4s ... capped at 30s)
+   */
+  private scheduleReconnect(authContext: AuthenticationContext, cacheKey: string, attempt: number): void {
+    if (attempt >= this.maxReconnectAttempts || this.reconnectTimers.has(cacheKey)) {
+      if (attempt >= this.maxReconnectAttempts) {
+        logger.error('Giving up reconnecting upstream MCP client', { clientKey: cacheKey, attempts: attempt });
+      }
+      return;
+    }
+
+    const delay = Math.min(1000 * 2 ** attempt, 30000);
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(cacheKey);
+
+      // A request may already have recreated it
+      if (this.clients.has(cacheKey) || this.pendingClients.has(cacheKey)) {
+        return;
+      }
+
+      try {
+        await this.getOrCreateClient(authContext);
+        logger.info('Reconnected upstream MCP client', { clientKey: cacheKey, attempt: attempt + 1 });
+      } catch (error) {
+        logger.warn('Reconnect attempt failed', { clientKey: cacheKey, attempt: attempt + 1, error });
+        this.scheduleReconnect(authContext, cacheKey, attempt + 1);
+      }
+    }, delay);
+    timer.unref();
+    this.reconnectTimers.set(cacheKey, timer);
+  }
+
+  /**
+   * Ping every cached client; clients that do not answer are dropped and reconnected
+   */
+  async checkClientHealth(timeoutMs: number = 10000): Promise<void> {
+    await Promise.all(Array.from(this.clients.values()).map(async clientInstance => {
+      try {
+        await clientInstance.client.ping({ timeout: timeoutMs });
+      } catch (error) {
+        logger.warn('Upstream MCP client failed health check', { clientKey: clientInstance.cacheKey, error });
+        this.handleClientClosed(clientInstance);
+        try {
+          await clientInstance.client.close();
+        } catch (closeError) {
+          // Ignore close errors on a dead client
+        }
+      }
+    }));
+  }
+
+  /**
+   * Connect and wait until the upstream answers tools/list, retrying with backoff
+   * until MCP_STARTUP_TIMEOUT_MS has elapsed
+   */
+  private async connectUntilReady(
+    client: Client,
+    transport: StdioClientTransport | StreamableHTTPClientTransport,
+    organization: string
+  ): Promise<MCPTool[]> {
+    const deadline = Date.now() + this.startupTimeoutMs;
+    const timeoutError = () => new Error(
+      `MCP server for organization '${organization}' did not become ready within ${this.startupTimeoutMs}ms`
+    );
+
+    // connect() performs the initialize handshake
+    try {
+      await client.connect(transport, { timeout: this.startupTimeoutMs });
+    } catch (error: any) {
+      throw error?.code === ErrorCode.RequestTimeout ? timeoutError() : error;
+    }
+    logger.info('Connected to MCP server', { organization });
+
+    let delay = 250;
+    for (let attempt = 1; ; attempt++) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw timeoutError();
+      }
+
+      try {
+        return await this.loadToolsForClient(client, remaining);
+      } catch (error: any) {
+        if (error?.code === ErrorCode.ConnectionClosed || Date.now() + delay >= deadline) {
+          throw error?.code === ErrorCode.RequestTimeout ? timeoutError() : error;
+        }
+        logger.warn('MCP server not ready, retrying', { organization, attempt, retryInMs: delay, error });
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * 2, 5000);
+      }
+    }
+  }
+
+  /**
+   * Apply the domain policy to a caller's requested upstream domains
+   */
+  resolveDomains(requested: string[] | undefined, caller?: CallerIdentity): PolicyDecision & { domains?: string[] } {
+    return this.policy.resolveDomains(requested, caller);
+  }
+
+  /**
+   * Called with the client key whenever a client's tool list changes
+   */
+  onToolsChanged(listener: (cacheKey: string) => void): void {
+    this.toolsChangedListeners.push(listener);
+  }
+
+  /**
+   * Re-fetch the tool list for the caller's client (POST /api/tools/refresh)
+   */
+  async refreshTools(authContext: AuthenticationContext): Promise<MCPTool[]> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    await this.reloadTools(clientInstance);
+    return this.getTools(authContext);
+  }
+
+  private async reloadTools(clientInstance: MCPClientInstance): Promise<void> {
+    clientInstance.tools = await this.loadToolsForClient(clientInstance.client);
+    logger.info('Refreshed tools', { clientKey: clientInstance.cacheKey, toolCount: clientInstance.tools.length });
+
+    for (const listener of this.toolsChangedListeners) {
+      listener(clientInstance.cacheKey);
+    }
+  }
+
+  private async loadToolsForClient(client: Client, timeout?: number): Promise<MCPTool[]> {
+    try {
+      logger.debug('Requesting tools list from MCP server');
       
       // Load tools using the latest SDK API
-      const toolsResponse = await client.listTools();
+      const toolsResponse = await client.listTools(undefined, { timeout });
       
-      console.log('📋 Raw tools response:', JSON.stringify(toolsResponse, null, 2));
       const tools = toolsResponse.tools || [];
-      console.log(`📋 Parsed ${tools.length} tools`);
+      logger.debug('Loaded tools', { toolCount: tools.length, tools: tools.map(tool => tool.name) });
       return tools;
     } catch (error) {
-      console.error('Failed to load tools:', error);
+      logger.debug('Failed to load tools', { error });
       throw error;
     }
   }
 
-  async callTool(name: string, arguments_: any, authContext?: AuthenticationContext): Promise<any> {
+  /**
+   * Call a tool on the upstream server; every call is recorded in the audit log
+   */
+  async callTool(name: string, arguments_: any, authContext?: AuthenticationContext, options: CallToolOptions = {}): Promise<any> {
+    const startTime = Date.now();
+    let outcome: AuditOutcome = 'error';
+    let approvalId = options.approvalId;
+    let errorMessage: string | undefined;
+    let cacheStatus: CacheStatus | undefined;
+
+    try {
+      const result = await this.executeToolCall(name, arguments_, authContext, {
+        ...options,
+        onCacheStatus: status => {
+          cacheStatus = status;
+          options.onCacheStatus?.(status);
+        }
+      });
+      outcome = result?.isError ? 'tool_error' : 'success';
+      return result;
+    } catch (error: any) {
+      if (error instanceof ApprovalPendingError) {
+        outcome = 'pending';
+        approvalId = error.approval.id;
+      } else if (error instanceof PolicyDeniedError) {
+        outcome = 'denied';
+      } else if (error instanceof ArgumentValidationError) {
+        outcome = 'invalid';
+      } else if (error instanceof RateLimitedError) {
+        outcome = 'rate_limited';
+      } else if (options.signal?.aborted) {
+        outcome = 'cancelled';
+      } else if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+        outcome = 'timeout';
+      }
+      errorMessage = error.message;
+      throw error;
+    } finally {
+      this.audit.record({
+        timestamp: new Date(startTime).toISOString(),
+        caller: authContext?.caller?.id,
+        callerType: authContext?.caller?.type,
+        organization: authContext?.azureDevOpsOrg,
+        tool: name,
+        arguments: arguments_ || {},
+        outcome,
+        isError: outcome !== 'success',
+        durationMs: Date.now() - startTime,
+        clientKey: authContext ? generateAuthCacheKey(authContext) : '',
+        source: options.source,
+        approvalId,
+        cached: cacheStatus === 'hit' || undefined,
+        error: errorMessage
+      });
+
+      if (cacheStatus && cacheStatus !== 'bypass') {
+        toolCacheLookupsTotal.inc({ tool: name, result: cacheStatus });
+      }
+      toolCallsTotal.inc({ tool: name, outcome, source: options.source || 'unknown' });
+      toolCallDuration.observe({ tool: name, outcome }, (Date.now() - startTime) / 1000);
+    }
+  }
+
+  private async executeToolCall(name: string, arguments_: any, authContext?: AuthenticationContext, options: CallToolOptions = {}): Promise<any> {
     let clientInstance: MCPClientInstance;
     
     if (authContext) {
@@ -238,33 +839,271 @@ export class MCPClientManager {
       throw new Error('Authentication context is required - ensure AZURE_DEVOPS_ORG environment variable is set and Azure CLI is authenticated');
     }
 
+    if (options.approvalId) {
+      return await this.resumeApprovedCall(options.approvalId, name, clientInstance, authContext, options);
+    }
+
+    // Enforce tool policy before anything is forwarded upstream
+    const tool = clientInstance.tools.find(t => t.name === name);
+    this.policy.assertAllowed(tool || name, authContext.caller);
+    const constrainedArguments = this.policy.applyConstraints(name, arguments_ || {}, authContext.caller);
+
+    // Reject malformed arguments here instead of deep inside the upstream server
+    const validatedArguments = tool
+      ? this.validator.validate(tool, constrainedArguments, options.coerceTypes)
+      : constrainedArguments;
+
+    // Counted against rate limits and quotas even when parked for approval or served from cache
+    this.rateLimiter.acquire(name, authContext.azureDevOpsOrg, authContext.caller?.id);
+
+    // Park the call until a human approves it
+    if (this.policy.requiresApproval(tool || name)) {
+      throw new ApprovalPendingError(this.approvals.create(name, validatedArguments, authContext));
+    }
+
+    // Read-only results are served from cache for their TTL; mutating calls always go upstream
+    const mutating = this.policy.isMutating(tool || name);
+    const cacheTtl = mutating ? 0 : this.policy.getCacheTtl(name);
+    const cacheKey = this.responseCache.key(clientInstance.cacheKey, name, validatedArguments);
+    if (cacheTtl > 0 && !options.noCache) {
+      const cached = this.responseCache.get(cacheKey);
+      if (cached) {
+        options.onCacheStatus?.('hit');
+        return cached;
+      }
+      options.onCacheStatus?.('miss');
+    } else {
+      options.onCacheStatus?.('bypass');
+    }
+
+    let result;
     try {
-      const response = await clientInstance.client.callTool({
-        name,
-        arguments: arguments_ || {}
-      });
+      result = await this.forwardWithRetry(clientInstance, name, validatedArguments, mutating, authContext, options);
+    } catch (error) {
+      this.rateLimiter.observeUpstream(authContext.azureDevOpsOrg, error);
+      throw error;
+    }
+    this.rateLimiter.observeUpstream(authContext.azureDevOpsOrg, result);
 
-      return response;
+    if (!result?.isError) {
+      if (cacheTtl > 0) {
+        this.responseCache.set(cacheKey, result, cacheTtl, name, authContext.azureDevOpsOrg);
+      } else if (mutating) {
+        this.invalidateCachedResults(name, authContext.azureDevOpsOrg);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Drop cached read results a successful write to the tool may have made stale
+   */
+  private invalidateCachedResults(name: string, organization?: string): void {
+    const removed = this.responseCache.invalidate(organization, this.policy.getCacheInvalidation(name));
+    if (removed > 0) {
+      logger.debug('Invalidated cached tool results', { tool: name, count: removed });
+    }
+  }
+
+  private async forwardWithRetry(
+    clientInstance: MCPClientInstance,
+    name: string,
+    args: Record<string, unknown>,
+    mutating: boolean,
+    authContext: AuthenticationContext,
+    options: CallToolOptions
+  ): Promise<any> {
+    try {
+      return await this.forwardToolCall(clientInstance, name, args, options);
     } catch (error) {
+      if (!isConnectionError(error)) {
+        throw error;
+      }
+
+      this.handleClientClosed(clientInstance);
+
+      // Only read-only calls are safe to repeat; a write may already have been applied
+      if (mutating) {
+        throw error;
+      }
+
+      logger.warn('Upstream connection lost, retrying read-only tool call', { tool: name });
+      const retryInstance = await this.getOrCreateClient(authContext);
+      return await this.forwardToolCall(retryInstance, name, args, options);
+    }
+  }
+
+  /**
+   * Execute an approved call exactly once; pending, rejected and completed
+   * approvals report their state (or stored result) instead
+   */
+  private async resumeApprovedCall(
+    approvalId: string,
+    name: string,
+    clientInstance: MCPClientInstance,
+    authContext: AuthenticationContext,
+    options: CallToolOptions
+  ): Promise<any> {
+    const approval = this.approvals.get(approvalId);
+    if (!approval || approval.toolName !== name || approval.caller?.id !== authContext.caller?.id) {
+      throw new Error(`Approval ${approvalId} not found for tool '${name}'`);
+    }
+
+    switch (approval.status) {
+      case 'pending':
+      case 'executing':
+        throw new ApprovalPendingError(approval);
+      case 'rejected':
+        throw new PolicyDeniedError(name, `approval ${approvalId} was rejected${approval.reason ? `: ${approval.reason}` : ''}`, 'approval');
+      case 'executed':
+        return approval.result;
+      case 'failed':
+        throw new Error(approval.error || `Approved call ${approvalId} failed`);
+    }
+
+    // Policies may have changed since the call was parked
+    const tool = clientInstance.tools.find(t => t.name === name);
+    this.policy.assertAllowed(tool || name, authContext.caller);
+    this.rateLimiter.acquire(name, authContext.azureDevOpsOrg, authContext.caller?.id);
+
+    this.approvals.markExecuting(approvalId);
+    try {
+      const response = await this.forwardToolCall(clientInstance, name, approval.arguments, options);
+      if (!response?.isError) {
+        this.invalidateCachedResults(name, authContext.azureDevOpsOrg);
+      }
+
+      this.approvals.complete(approvalId, response);
+      return response;
+    } catch (error: any) {
+      this.approvals.fail(approvalId, error.message);
       throw error;
     }
   }
 
+  async queryAudit(query: AuditQuery): Promise<AuditEntry[]> {
+    return await this.audit.query(query);
+  }
+
+  getApprovals(status?: ApprovalStatus): ApprovalRequest[] {
+    return this.approvals.list(status);
+  }
+
+  getApproval(id: string): ApprovalRequest | undefined {
+    return this.approvals.get(id);
+  }
+
+  cleanupExpiredApprovals(): number {
+    return this.approvals.cleanupExpiredApprovals();
+  }
+
+  /**
+   * Approve or reject a parked call. Approved calls are resumed immediately when
+   * their auth context is still available, otherwise the caller re-submits with the approval id.
+   */
+  async decideApproval(id: string, approved: boolean, decidedBy?: string, reason?: string): Promise<ApprovalRequest> {
+    const approval = this.approvals.decide(id, approved, decidedBy, reason);
+
+    const context = approved ? this.approvals.getContext(id) : undefined;
+    if (context) {
+      try {
+        await this.callTool(approval.toolName, approval.arguments, context, { approvalId: id, source: 'approval' });
+      } catch (error) {
+        logger.error('Approved call failed', { approvalId: id, error });
+      }
+    }
+
+    return this.approvals.get(id)!;
+  }
+
+  async listResources(params: ListResourcesRequest['params'], authContext: AuthenticationContext): Promise<any> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    return await clientInstance.client.listResources(params);
+  }
+
+  async listResourceTemplates(params: ListResourceTemplatesRequest['params'], authContext: AuthenticationContext): Promise<any> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    return await clientInstance.client.listResourceTemplates(params);
+  }
+
+  async readResource(params: ReadResourceRequest['params'], authContext: AuthenticationContext): Promise<any> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    return await clientInstance.client.readResource(params);
+  }
+
+  async listPrompts(params: ListPromptsRequest['params'], authContext: AuthenticationContext): Promise<any> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    return await clientInstance.client.listPrompts(params);
+  }
+
+  async getPrompt(params: GetPromptRequest['params'], authContext: AuthenticationContext): Promise<any> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    return await clientInstance.client.getPrompt(params);
+  }
+
+  async complete(params: CompleteRequest['params'], authContext: AuthenticationContext): Promise<any> {
+    const clientInstance = await this.getOrCreateClient(authContext);
+    return await clientInstance.client.complete(params);
+  }
+
+  /**
+   * Capabilities to advertise downstream, derived from what the upstream server
+   * reported during its handshake. Only features the wrapper proxies are included.
+   */
+  getServerCapabilities(authContext?: AuthenticationContext): ServerCapabilities {
+    const capabilities: ServerCapabilities = { tools: { listChanged: true } };
+    if (!authContext) {
+      return capabilities;
+    }
+
+    const cacheKey = generateAuthCacheKey(authContext);
+    const upstream = this.clients.get(cacheKey)?.capabilities || {};
+
+    if (upstream.resources) {
+      capabilities.resources = {};
+    }
+    if (upstream.prompts) {
+      capabilities.prompts = {};
+    }
+    if (upstream.completions) {
+      capabilities.completions = {};
+    }
+    if (upstream.logging) {
+      capabilities.logging = {};
+    }
+
+    return capabilities;
+  }
+
+  /**
+   * Tools visible to the caller after applying the tool policy
+   */
   getTools(authContext?: AuthenticationContext): MCPTool[] {
     if (authContext) {
-      const cacheKey = generateAuthCacheKey(authContext);
-      const clientInstance = this.clients.get(cacheKey);
-      return clientInstance?.tools || [];
+      return this.policy.filterTools(this.getAllTools(authContext), authContext.caller);
     }
     
     return [];
   }
 
+  /**
+   * Look up a tool regardless of policy, so denied calls surface as policy errors rather than "not found"
+   */
   getTool(name: string, authContext?: AuthenticationContext): MCPTool | undefined {
-    const tools = this.getTools(authContext);
+    const tools = this.getAllTools(authContext);
     return tools.find(tool => tool.name === name);
   }
 
+  private getAllTools(authContext?: AuthenticationContext): MCPTool[] {
+    if (authContext) {
+      const cacheKey = generateAuthCacheKey(authContext);
+      const clientInstance = this.clients.get(cacheKey);
+      return clientInstance?.tools || [];
+    }
+
+    return [];
+  }
+
   isReady(authContext?: AuthenticationContext): boolean {
     if (authContext) {
       const cacheKey = generateAuthCacheKey(authContext);
@@ -276,21 +1115,31 @@ export class MCPClientManager {
   }
 
   async cleanup(): Promise<void> {
+    await this.audit.flush();
+    await this.approvals.flush();
+
     try {
       // Clean up all cached clients
+      for (const timer of this.reconnectTimers.values()) {
+        clearTimeout(timer);
+      }
+      this.reconnectTimers.clear();
+
       for (const [key, clientInstance] of this.clients.entries()) {
+        clientInstance.closing = true;
         try {
           await clientInstance.client.close();
         } catch (error) {
-          console.log(`Cleanup error for client ${key}:`, error);
+          logger.warn('Cleanup error for client', { clientKey: key, error });
         }
       }
 
       this.clients.clear();
+      upstreamClientsActive.set(0);
       
-      console.log('✅ All MCP clients cleaned up');
+      logger.info('All MCP clients cleaned up');
     } catch (error) {
-      console.log('Cleanup completed with minor errors (expected)');
+      logger.info('Cleanup completed with minor errors (expected)');
     }
   }
 
@@ -300,25 +1149,59 @@ export class MCPClientManager {
    */
   async cleanupUnusedClients(maxAgeMinutes: number = 30): Promise<void> {
     const cutoffTime = new Date(Date.now() - maxAgeMinutes * 60 * 1000);
-    const keysToRemove: string[] = [];
-
-    for (const [key, clientInstance] of this.clients.entries()) {
-      if (clientInstance.lastUsed < cutoffTime) {
-        keysToRemove.push(key);
-        try {
-          await clientInstance.client.close();
-        } catch (error) {
-          console.log(`Error closing unused client ${key}:`, error);
-        }
-      }
-    }
+    const keysToRemove = Array.from(this.clients.values())
+      .filter(clientInstance => clientInstance.lastUsed < cutoffTime && clientInstance.inFlight === 0 && !clientInstance.pinned)
+      .map(clientInstance => clientInstance.cacheKey);
 
     for (const key of keysToRemove) {
-      this.clients.delete(key);
+      await this.evictClient(key, 'idle');
     }
 
     if (keysToRemove.length > 0) {
-      console.log(`🗑️ Cleaned up ${keysToRemove.length} unused MCP clients`);
+      logger.info('Cleaned up unused MCP clients', { count: keysToRemove.length });
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether an upstream call failed because the transport is gone rather than because of the call itself
+ */
+function isConnectionError(error: any): boolean {
+  if (error instanceof McpError && error.code === ErrorCode.ConnectionClosed) {
+    return /Connection closed/.test(error.message);
+  }
+
+  const code = error?.cause?.code;
+  return error?.message === 'Not connected'
+    || (error instanceof TypeError && error.message === 'fetch failed')
+    || code === 'ECONNREFUSED' || code === 'ECONNRESET' || code === 'EPIPE';
+}
+
+/**
+ * Command used to start the stdio upstream: MCP_SERVER_COMMAND / MCP_SERVER_ARGS when set,
+ * otherwise the locally installed @azure-devops/mcp, falling back to npx only if it is missing.
+ * The organization and auth/domain arguments are appended per client.
+ */
+function resolveServerCommand(): ServerCommand {
+  if (process.env.MCP_SERVER_COMMAND) {
+    return {
+      command: process.env.MCP_SERVER_COMMAND,
+      args: (process.env.MCP_SERVER_ARGS || '').split(/\s+/).filter(Boolean)
+    };
+  }
+
+  try {
+    const packageJsonPath = require.resolve('@azure-devops/mcp/package.json');
+    const { bin } = require(packageJsonPath);
+    const binPath = typeof bin === 'string' ? bin : bin['mcp-server-azuredevops'];
+    return {
+      command: process.execPath,
+      args: [path.join(path.dirname(packageJsonPath), binPath)]
+    };
+  } catch (error) {
+    return {
+      command: 'npx',
+      args: ['-y', '-p', '@azure-devops/mcp', 'mcp-server-azuredevops']
+    };
+  }
+}
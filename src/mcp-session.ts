@@ -0,0 +1,494 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { Server as MCPServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ServerCapabilities,
+  ServerNotification,
+  isInitializeRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPClientManager } from './mcp-client';
+import { AuthenticationContext, generateAuthCacheKey, parseDomains } from './auth-middleware';
+import { POLICY_DENIED_ERROR_CODE, PolicyDeniedError } from './policy';
+import { ApprovalPendingError } from './approvals';
+import { ArgumentValidationError } from './validation';
+import { RATE_LIMITED_ERROR_CODE, RateLimitedError } from './rate-limit';
+import { ShapeOptions, parseShapeOptions, shapeToolResult } from './result-shaping';
+import { logger } from './logger';
+import { jsonRpcMessagesTotal, mcpSessionsActive } from './metrics';
+
+interface MCPSession {
+  server: MCPServer;
+  transport: StreamableHTTPServerTransport;
+  authContext: AuthenticationContext;
+  createdAt: Date;
+  lastUsed: Date;
+}
+
+// Metric label values for /api/mcp methods; anything else is counted as "other"
+const KNOWN_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'tools/call',
+  'prompts/list',
+  'prompts/get',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+  'completion/complete',
+  'logging/setLevel',
+  'notifications/initialized',
+  'notifications/cancelled',
+  'notifications/progress',
+  'notifications/roots/list_changed'
+]);
+
+/**
+ * Manages downstream Streamable HTTP MCP sessions on /api/mcp.
+ * Each session owns its own MCP server and transport; tool requests are
+ * forwarded to the upstream Azure DevOps client through MCPClientManager.
+ */
+export class MCPSessionManager {
+  private sessions: Map<string, MCPSession> = new Map();
+
+  constructor(private mcpClient: MCPClientManager) {
+    this.mcpClient.onToolsChanged(cacheKey => this.notifyToolsChanged(cacheKey));
+  }
+
+  /**
+   * Handle POST /api/mcp - JSON-RPC requests, notifications and batches
+   */
+  async handlePost(req: Request, res: Response): Promise<void> {
+    this.countMessages(req.body);
+    const sessionId = this.getSessionIdHeader(req);
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendSessionError(res, 404, 'Session not found');
+        return;
+      }
+
+      if (!this.isSameCaller(session, req)) {
+        this.sendSessionError(res, 403, 'Credentials do not match the session');
+        return;
+      }
+
+      session.lastUsed = new Date();
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!this.containsInitializeRequest(req.body)) {
+      this.sendSessionError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // Capture the configuration the session was initialized with
+    const authContext: AuthenticationContext = { ...req.authContext };
+
+    // Domains may also be chosen in the initialize request (params._meta.domains)
+    const initialize = (Array.isArray(req.body) ? req.body : [req.body]).find(message => isInitializeRequest(message));
+    const initDomains = parseDomains(initialize?.params?._meta?.domains as string | string[] | undefined);
+    if (initDomains) {
+      const decision = this.mcpClient.resolveDomains(initDomains, authContext.caller);
+      if (!decision.allowed) {
+        this.sendSessionError(res, 403, `Domain selection denied by policy: ${decision.reason}`);
+        return;
+      }
+      authContext.mcpDomains = decision.domains;
+    }
+
+    const session = await this.createSession(authContext);
+    await session.server.connect(session.transport);
+    await session.transport.handleRequest(req, res, req.body);
+  }
+
+  /**
+   * Handle GET /api/mcp (server-to-client SSE stream) and DELETE /api/mcp (session termination)
+   */
+  async handleSessionRequest(req: Request, res: Response): Promise<void> {
+    const sessionId = this.getSessionIdHeader(req);
+
+    if (!sessionId) {
+      this.sendSessionError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendSessionError(res, 404, 'Session not found');
+      return;
+    }
+
+    if (!this.isSameCaller(session, req)) {
+      this.sendSessionError(res, 403, 'Credentials do not match the session');
+      return;
+    }
+
+    session.lastUsed = new Date();
+    await session.transport.handleRequest(req, res);
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close sessions that have not been used for more than the specified time
+   */
+  async cleanupIdleSessions(maxAgeMinutes: number = 60): Promise<void> {
+    const cutoffTime = new Date(Date.now() - maxAgeMinutes * 60 * 1000);
+    let removed = 0;
+
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (session.lastUsed < cutoffTime) {
+        removed++;
+        await this.closeSession(sessionId, session);
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('Cleaned up idle MCP sessions', { count: removed });
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    for (const [sessionId, session] of this.sessions.entries()) {
+      await this.closeSession(sessionId, session);
+    }
+    this.sessions.clear();
+  }
+
+  private async createSession(authContext: AuthenticationContext): Promise<MCPSession> {
+    const capabilities = await this.getUpstreamCapabilities(authContext);
+
+    const server = new MCPServer(
+      {
+        name: 'azure-devops-mcp-rest-wrapper',
+        version: '1.0.0'
+      },
+      {
+        capabilities
+      }
+    );
+
+    const session: MCPSession = {
+      server,
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId: string) => {
+          this.sessions.set(sessionId, session);
+          mcpSessionsActive.set(this.sessions.size);
+          logger.info('MCP session initialized', { sessionId, caller: authContext.caller?.id });
+        }
+      }),
+      authContext,
+      createdAt: new Date(),
+      lastUsed: new Date()
+    };
+
+    session.transport.onclose = () => {
+      const sessionId = session.transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        mcpSessionsActive.set(this.sessions.size);
+        logger.info('MCP session closed', { sessionId });
+      }
+    };
+
+    this.registerHandlers(session, capabilities);
+
+    return session;
+  }
+
+  /**
+   * Start the upstream client during the handshake so the session can
+   * advertise the capabilities the Azure DevOps server actually reports
+   */
+  private async getUpstreamCapabilities(authContext: AuthenticationContext): Promise<ServerCapabilities> {
+    const resolved = this.resolveAuthContext(authContext);
+
+    if (resolved.azureDevOpsOrg) {
+      try {
+        await this.mcpClient.getOrCreateClient(resolved);
+      } catch (error) {
+        logger.error('Failed to create MCP client for session', { error });
+      }
+    }
+
+    return this.mcpClient.getServerCapabilities(resolved);
+  }
+
+  private registerHandlers(session: MCPSession, capabilities: ServerCapabilities): void {
+    session.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const authContext = await this.ensureClient(session);
+      return {
+        tools: this.mcpClient.getTools(authContext)
+      };
+    });
+
+    // extra.signal is aborted when the client sends notifications/cancelled for this request
+    session.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const authContext = await this.ensureClient(session);
+
+      const { name, arguments: args } = request.params;
+      const tool = this.mcpClient.getTool(name, authContext);
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Tool '${name}' not found`);
+      }
+
+      // Agents resume or poll a parked call by repeating it with _meta.approvalId
+      const approvalId = request.params._meta?.approvalId as string | undefined;
+
+      // _meta.shape ({ fields, format, maxChars, offset }) trims the result before it reaches the model
+      let shape: ShapeOptions | undefined;
+      try {
+        shape = parseShapeOptions(request.params._meta?.shape as Record<string, unknown> | undefined);
+      } catch (error: any) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      // With a progressToken, upstream progress and log messages are relayed on this request's SSE stream
+      const progressToken = request.params._meta?.progressToken;
+      const relay = (notification: ServerNotification) => {
+        extra.sendNotification(notification).catch(error => {
+          logger.debug('Failed to relay notification', { method: notification.method, error });
+        });
+      };
+
+      let result;
+      try {
+        result = await this.mcpClient.callTool(name, args || {}, authContext, {
+          approvalId,
+          source: 'jsonrpc',
+          signal: extra.signal,
+          onProgress: progressToken !== undefined
+            ? progress => relay({ method: 'notifications/progress', params: { ...progress, progressToken } })
+            : undefined,
+          onLog: progressToken !== undefined && capabilities.logging
+            ? message => relay({ method: 'notifications/message', params: message })
+            : undefined
+        });
+      } catch (error) {
+        if (error instanceof ApprovalPendingError) {
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `${error.message}. The call has not been executed yet. Repeat this call with _meta.approvalId = "${error.approval.id}" once it has been approved.`
+              }
+            ],
+            isError: false,
+            _meta: {
+              approvalId: error.approval.id,
+              approvalStatus: error.approval.status
+            }
+          };
+        }
+        if (error instanceof ArgumentValidationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message, {
+            type: 'invalid_arguments',
+            tool: error.toolName,
+            violations: error.violations
+          });
+        }
+        if (error instanceof PolicyDeniedError) {
+          throw new McpError(POLICY_DENIED_ERROR_CODE, error.message, {
+            type: 'policy_denied',
+            tool: error.toolName,
+            rule: error.rule,
+            argument: error.argument
+          });
+        }
+        if (error instanceof RateLimitedError) {
+          throw new McpError(RATE_LIMITED_ERROR_CODE, error.message, {
+            type: 'rate_limited',
+            scope: error.scope,
+            retryAfterSeconds: error.retryAfterSeconds
+          });
+        }
+        throw error;
+      }
+
+      const shaped = shapeToolResult(result, shape);
+      return {
+        content: shaped.content || [],
+        isError: shaped.isError || false,
+        ...(shaped._meta?.truncated ? { _meta: { truncated: shaped._meta.truncated } } : {})
+      };
+    });
+
+    if (capabilities.resources) {
+      session.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        const authContext = await this.ensureClient(session);
+        return await this.mcpClient.listResources(request.params, authContext);
+      });
+
+      session.server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
+        const authContext = await this.ensureClient(session);
+        return await this.mcpClient.listResourceTemplates(request.params, authContext);
+      });
+
+      session.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const authContext = await this.ensureClient(session);
+        return await this.mcpClient.readResource(request.params, authContext);
+      });
+    }
+
+    if (capabilities.prompts) {
+      session.server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+        const authContext = await this.ensureClient(session);
+        return await this.mcpClient.listPrompts(request.params, authContext);
+      });
+
+      session.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const authContext = await this.ensureClient(session);
+        return await this.mcpClient.getPrompt(request.params, authContext);
+      });
+    }
+
+    if (capabilities.completions) {
+      session.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+        const authContext = await this.ensureClient(session);
+        return await this.mcpClient.complete(request.params, authContext);
+      });
+    }
+  }
+
+  /**
+   * Send notifications/tools/list_changed to every session backed by the given upstream client
+   */
+  private notifyToolsChanged(cacheKey: string): void {
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (generateAuthCacheKey(this.resolveAuthContext(session.authContext)) !== cacheKey) {
+        continue;
+      }
+      session.server.sendToolListChanged().catch(error => {
+        logger.warn('Failed to send tools/list_changed', { sessionId, error });
+      });
+    }
+  }
+
+  /**
+   * Resolve a session's auth context, falling back to environment variables
+   */
+  private resolveAuthContext(authContext: AuthenticationContext): AuthenticationContext {
+    if (authContext.azureDevOpsOrg) {
+      return authContext;
+    }
+
+    return {
+      ...authContext,
+      azureDevOpsOrg: process.env.AZURE_DEVOPS_ORG,
+      mcpTransportType: authContext.mcpTransportType || 'stdio'
+    };
+  }
+
+  private async ensureClient(session: MCPSession): Promise<AuthenticationContext> {
+    const authContext = this.resolveAuthContext(session.authContext);
+
+    if (!authContext.azureDevOpsOrg) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        'Azure DevOps organization not configured. Please provide your organization name.',
+        {
+          type: 'configuration_required',
+          required_fields: [
+            {
+              name: 'azureDevOpsOrg',
+              description: 'Your Azure DevOps organization name (e.g., "mycompany")',
+              prompt: 'What is your Azure DevOps organization name?'
+            }
+          ],
+          instructions: 'You can either:\n1. Set AZURE_DEVOPS_ORG environment variable\n2. Provide it in the MCP client configuration\n3. Ensure Azure CLI is authenticated (az login) and configured'
+        }
+      );
+    }
+
+    // Ensure client is available for this auth context
+    await this.mcpClient.getOrCreateClient(authContext);
+
+    if (!this.mcpClient.isReady(authContext)) {
+      throw new McpError(ErrorCode.InternalError, 'MCP client not ready');
+    }
+
+    return authContext;
+  }
+
+  private async closeSession(sessionId: string, session: MCPSession): Promise<void> {
+    this.sessions.delete(sessionId);
+    mcpSessionsActive.set(this.sessions.size);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn('Error closing MCP session', { sessionId, error });
+    }
+  }
+
+  /**
+   * The caller and credentials are bound to the session at initialize; later
+   * requests may omit Azure DevOps credentials but must not present different ones
+   */
+  private isSameCaller(session: MCPSession, req: Request): boolean {
+    if (req.authContext?.caller?.id !== session.authContext.caller?.id) {
+      return false;
+    }
+
+    const credential = req.authContext?.azureDevOpsCredential;
+    if (!credential) {
+      return true;
+    }
+
+    const sessionCredential = session.authContext.azureDevOpsCredential;
+    return sessionCredential?.type === credential.type && sessionCredential.token === credential.token;
+  }
+
+  private countMessages(body: unknown): void {
+    const messages = Array.isArray(body) ? body : [body];
+    for (const message of messages) {
+      if (hasMethod(message)) {
+        jsonRpcMessagesTotal.inc({ method: KNOWN_METHODS.has(message.method) ? message.method : 'other' });
+      }
+    }
+  }
+
+  private getSessionIdHeader(req: Request): string | undefined {
+    const sessionId = req.headers['mcp-session-id'];
+    return Array.isArray(sessionId) ? sessionId[0] : sessionId;
+  }
+
+  private containsInitializeRequest(body: unknown): boolean {
+    if (Array.isArray(body)) {
+      return body.some(message => isInitializeRequest(message));
+    }
+    return isInitializeRequest(body);
+  }
+
+  private sendSessionError(res: Response, statusCode: number, message: string): void {
+    res.status(statusCode).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: statusCode === 404 ? -32001 : -32000,
+        message
+      }
+    });
+  }
+}
+
+function hasMethod(message: unknown): message is { method: string } {
+  return !!message && typeof message === 'object' && typeof (message as { method?: unknown }).method === 'string';
+}
@@ -0,0 +1,86 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics exposed on GET /metrics
+ */
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+export const toolCallsTotal = new Counter({
+  name: 'mcp_tool_calls_total',
+  help: 'Tool calls by tool name and outcome',
+  labelNames: ['tool', 'outcome', 'source'] as const,
+  registers: [registry]
+});
+
+export const toolCallDuration = new Histogram({
+  name: 'mcp_tool_call_duration_seconds',
+  help: 'Tool call duration in seconds',
+  labelNames: ['tool', 'outcome'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry]
+});
+
+export const jsonRpcMessagesTotal = new Counter({
+  name: 'mcp_jsonrpc_messages_total',
+  help: 'JSON-RPC messages received on /api/mcp by method',
+  labelNames: ['method'] as const,
+  registers: [registry]
+});
+
+export const upstreamClientSpawnDuration = new Histogram({
+  name: 'mcp_upstream_client_spawn_duration_seconds',
+  help: 'Time to create and initialize an upstream MCP client',
+  labelNames: ['transport', 'outcome'] as const,
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+  registers: [registry]
+});
+
+export const upstreamClientsActive = new Gauge({
+  name: 'mcp_upstream_clients_active',
+  help: 'Upstream MCP clients currently cached',
+  registers: [registry]
+});
+
+export const upstreamClientEvictionsTotal = new Counter({
+  name: 'mcp_upstream_client_evictions_total',
+  help: 'Upstream MCP clients removed from the cache',
+  labelNames: ['reason'] as const,
+  registers: [registry]
+});
+
+export const mcpSessionsActive = new Gauge({
+  name: 'mcp_sessions_active',
+  help: 'Open downstream MCP sessions',
+  registers: [registry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry]
+});
+
+export const jobsTotal = new Counter({
+  name: 'mcp_jobs_total',
+  help: 'Finished async jobs by kind and status',
+  labelNames: ['kind', 'status'] as const,
+  registers: [registry]
+});
+
+export const toolCacheLookupsTotal = new Counter({
+  name: 'mcp_tool_cache_lookups_total',
+  help: 'Response cache lookups for cacheable tool calls by result (hit or miss)',
+  labelNames: ['tool', 'result'] as const,
+  registers: [registry]
+});
+
+export const rateLimitRejectionsTotal = new Counter({
+  name: 'mcp_rate_limit_rejections_total',
+  help: 'Tool calls rejected by rate limits, quotas or upstream throttling backoff',
+  labelNames: ['scope'] as const,
+  registers: [registry]
+});
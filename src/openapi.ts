@@ -0,0 +1,297 @@
+import { MCPTool } from './mcp-client';
+
+export interface OpenApiOptions {
+  organization?: string;
+  // Inbound authentication methods in use (INBOUND_AUTH)
+  authMethods: string[];
+}
+
+/**
+ * Build an OpenAPI 3.1 document with one POST /api/v1/{toolName} operation per tool,
+ * taking the tool's inputSchema as the request body
+ */
+export function buildOpenApiDocument(tools: MCPTool[], options: OpenApiOptions): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+
+  for (const tool of tools) {
+    const [summary, ...details] = (tool.description || tool.name).split('\n');
+    const readOnly = tool.annotations?.readOnlyHint;
+
+    paths[`/api/v1/${tool.name}`] = {
+      post: {
+        operationId: tool.name,
+        summary: summary.trim(),
+        description: details.join('\n').trim() || undefined,
+        tags: [tool.name.split('_')[0]],
+        ...(readOnly !== undefined ? { 'x-mcp-read-only': readOnly } : {}),
+        parameters: ['ApprovalId', 'Fields', 'Format', 'MaxChars', 'Offset'].map(name => ({ $ref: `#/components/parameters/${name}` })),
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': { schema: toRequestSchema(tool.inputSchema) }
+          }
+        },
+        responses: {
+          '200': jsonResponse('Tool result', 'ToolCallResponse'),
+          '202': jsonResponse('Parked for approval', 'PendingResponse'),
+          '400': jsonResponse('Arguments do not match the input schema', 'Error'),
+          '403': jsonResponse('Denied by policy', 'Error'),
+          '404': jsonResponse('Unknown tool', 'Error'),
+          '429': jsonResponse('Rate limit or daily quota exceeded; see Retry-After', 'Error'),
+          '504': jsonResponse('Upstream call timed out', 'Error'),
+          '500': jsonResponse('Upstream failure', 'Error')
+        }
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Azure DevOps MCP REST API',
+      version: '1.0.0',
+      description: `Azure DevOps MCP tools as REST operations${options.organization ? ` for organization '${options.organization}'` : ''}. ` +
+        'Set X-Azure-DevOps-Org / X-Azure-DevOps-PAT to act on another organization or as yourself.'
+    },
+    servers: [{ url: '/' }],
+    security: buildSecurityRequirements(options.authMethods),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        jwt: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        azureDevOpsPat: { type: 'apiKey', in: 'header', name: 'X-Azure-DevOps-PAT' }
+      },
+      parameters: {
+        ApprovalId: {
+          name: 'X-Approval-Id',
+          in: 'header',
+          required: false,
+          description: 'Resume or poll a call previously parked for approval',
+          schema: { type: 'string' }
+        },
+        Fields: {
+          name: 'fields',
+          in: 'query',
+          required: false,
+          description: 'Comma separated field paths kept from JSON results, e.g. id,fields."System.Title"',
+          schema: { type: 'string' }
+        },
+        Format: {
+          name: 'format',
+          in: 'query',
+          required: false,
+          description: 'Render JSON results as compact JSON, a markdown table or CSV',
+          schema: { type: 'string', enum: ['json', 'markdown', 'csv'] }
+        },
+        MaxChars: {
+          name: 'maxChars',
+          in: 'query',
+          required: false,
+          description: 'Truncate each text result to this many characters',
+          schema: { type: 'integer', minimum: 0 }
+        },
+        Offset: {
+          name: 'offset',
+          in: 'query',
+          required: false,
+          description: 'Start of the returned text, to continue a truncated result',
+          schema: { type: 'integer', minimum: 0 }
+        }
+      },
+      schemas: {
+        ToolCallResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              description: 'MCP CallToolResult',
+              properties: {
+                content: { type: 'array', items: { type: 'object' } },
+                structuredContent: { type: 'object' },
+                isError: { type: 'boolean' }
+              }
+            },
+            cache: { type: 'string', enum: ['hit', 'miss', 'bypass'], description: 'Response cache status' },
+            organization: { type: 'string' }
+          }
+        },
+        PendingResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', const: false },
+            pending: { type: 'boolean', const: true },
+            approvalId: { type: 'string' },
+            status: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            rule: { type: 'string' },
+            argument: { type: 'string' },
+            scope: { type: 'string', description: 'Rate limit that rejected the call' },
+            retryAfterSeconds: { type: 'integer' },
+            violations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { path: { type: 'string' }, message: { type: 'string' } }
+              }
+            }
+          },
+          required: ['error']
+        }
+      }
+    }
+  };
+}
+
+function toRequestSchema(inputSchema: any): Record<string, unknown> {
+  // OpenAPI 3.1 schemas are JSON Schema 2020-12; drop the draft marker the upstream emits
+  const { $schema, ...schema } = inputSchema || {};
+  return Object.keys(schema).length > 0 ? schema : { type: 'object' };
+}
+
+function jsonResponse(description: string, schema: string): Record<string, unknown> {
+  return {
+    description,
+    content: {
+      'application/json': { schema: { $ref: `#/components/schemas/${schema}` } }
+    }
+  };
+}
+
+function buildSecurityRequirements(authMethods: string[]): Record<string, string[]>[] {
+  const requirements: Record<string, string[]>[] = [];
+  if (authMethods.includes('api-key')) {
+    requirements.push({ apiKey: [] });
+  }
+  if (authMethods.includes('jwt')) {
+    requirements.push({ jwt: [] });
+  }
+  return requirements;
+}
+
+/**
+ * Self-contained API explorer for /openapi.json; no external assets so it works offline
+ */
+export function renderApiDocsPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Azure DevOps MCP REST API</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 1000px; padding: 1rem; color: #1f2328; }
+  header { display: flex; flex-wrap: wrap; gap: .5rem; align-items: center; margin-bottom: 1rem; }
+  header input { padding: .3rem; min-width: 14rem; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .3rem; text-transform: capitalize; }
+  details { border: 1px solid #d0d7de; border-radius: 6px; margin: .4rem 0; }
+  summary { cursor: pointer; padding: .5rem; }
+  summary code { background: #49cc90; color: #fff; border-radius: 3px; padding: .1rem .4rem; margin-right: .5rem; }
+  .body { padding: .5rem 1rem 1rem; }
+  textarea { width: 100%; min-height: 8rem; font-family: monospace; }
+  pre { background: #f6f8fa; padding: .5rem; overflow: auto; max-height: 24rem; }
+  .schema { font-size: .85rem; }
+</style>
+</head>
+<body>
+<h1>Azure DevOps MCP REST API</h1>
+<header>
+  <input id="org" placeholder="X-Azure-DevOps-Org">
+  <input id="pat" placeholder="X-Azure-DevOps-PAT" type="password">
+  <input id="apiKey" placeholder="X-API-Key" type="password">
+  <a href="/openapi.json">openapi.json</a>
+</header>
+<main id="operations">Loading...</main>
+<script>
+function headers() {
+  const result = { 'Content-Type': 'application/json' };
+  for (const [id, name] of [['org', 'X-Azure-DevOps-Org'], ['pat', 'X-Azure-DevOps-PAT'], ['apiKey', 'X-API-Key']]) {
+    const value = document.getElementById(id).value;
+    if (value) result[name] = value;
+  }
+  return result;
+}
+
+function example(schema) {
+  const result = {};
+  for (const name of (schema && schema.required) || []) {
+    const type = schema.properties && schema.properties[name] && schema.properties[name].type;
+    result[name] = type === 'number' || type === 'integer' ? 0 : type === 'boolean' ? false : type === 'array' ? [] : type === 'object' ? {} : '';
+  }
+  return result;
+}
+
+function element(tag, text, className) {
+  const node = document.createElement(tag);
+  if (text !== undefined) node.textContent = text;
+  if (className) node.className = className;
+  return node;
+}
+
+async function load() {
+  const main = document.getElementById('operations');
+  const response = await fetch('/openapi.json', { headers: headers() });
+  const spec = await response.json();
+  main.textContent = '';
+  if (!response.ok) {
+    main.appendChild(element('pre', JSON.stringify(spec, null, 2)));
+    return;
+  }
+
+  const groups = {};
+  for (const [path, item] of Object.entries(spec.paths)) {
+    const operation = item.post;
+    (groups[operation.tags[0]] = groups[operation.tags[0]] || []).push([path, operation]);
+  }
+
+  for (const [tag, operations] of Object.entries(groups)) {
+    main.appendChild(element('h2', tag));
+    for (const [path, operation] of operations) {
+      const schema = operation.requestBody.content['application/json'].schema;
+      const details = element('details');
+      const summary = element('summary');
+      summary.appendChild(element('code', 'POST'));
+      summary.appendChild(element('strong', path));
+      summary.appendChild(document.createTextNode(' ' + (operation.summary || '')));
+      details.appendChild(summary);
+
+      const body = element('div', undefined, 'body');
+      if (operation.description) body.appendChild(element('p', operation.description));
+      body.appendChild(element('pre', JSON.stringify(schema, null, 2), 'schema'));
+      const input = element('textarea');
+      input.value = JSON.stringify(example(schema), null, 2);
+      body.appendChild(input);
+      const button = element('button', 'Execute');
+      const output = element('pre');
+      button.onclick = async () => {
+        output.textContent = 'Running...';
+        try {
+          const result = await fetch(path, { method: 'POST', headers: headers(), body: input.value });
+          output.textContent = result.status + '\\n' + JSON.stringify(await result.json(), null, 2);
+        } catch (error) {
+          output.textContent = String(error);
+        }
+      };
+      body.appendChild(button);
+      body.appendChild(output);
+      details.appendChild(body);
+      main.appendChild(details);
+    }
+  }
+}
+
+for (const id of ['org', 'pat', 'apiKey']) {
+  document.getElementById(id).addEventListener('change', load);
+}
+load();
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,382 @@
+import fs from 'fs';
+import { CallerIdentity } from './inbound-auth';
+import { MCPTool } from './mcp-client';
+import { logger } from './logger';
+import { RateLimitConfig } from './rate-limit';
+
+/**
+ * JSON-RPC error code used when a policy rejects a request
+ */
+export const POLICY_DENIED_ERROR_CODE = -32003;
+
+export interface ToolRules {
+  // Glob patterns over tool names; when present a tool must match one
+  allow?: string[];
+  // Glob patterns over tool names; deny always wins over allow
+  deny?: string[];
+  // Reject tools classified as mutating
+  readOnly?: boolean;
+  // Glob patterns over upstream domains the caller may enable; callers without a
+  // domain selection get exactly these (caller rules replace the global list)
+  domains?: string[];
+}
+
+/**
+ * Declarative constraint over tools/call arguments.
+ * Defaults and clamping rewrite the arguments; every other check rejects the call.
+ */
+export interface ArgumentConstraint {
+  name?: string;
+  // Glob patterns over tool names / caller ids the constraint applies to (default all)
+  tools?: string[];
+  callers?: string[];
+  // Argument name, dot separated for nested values
+  argument: string;
+  required?: boolean;
+  default?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  matches?: string;
+  notMatches?: string;
+  min?: number;
+  max?: number;
+  // Clamp numbers into [min, max] instead of rejecting
+  clamp?: boolean;
+}
+
+export interface PolicyConfig extends ToolRules {
+  // Glob patterns classifying additional tools as mutating / read-only
+  mutatingTools?: string[];
+  readOnlyTools?: string[];
+  // Per-caller rules keyed on CallerIdentity.id; caller readOnly overrides the global setting
+  callers?: Record<string, ToolRules>;
+  constraints?: ArgumentConstraint[];
+  // Park calls for human approval: true for every mutating tool, or glob patterns over tool names
+  requireApproval?: boolean | string[];
+  // Upstream call timeouts in milliseconds keyed on tool name globs; first match wins over TOOL_TIMEOUT_MS
+  timeouts?: Record<string, number>;
+  // Response cache TTLs in milliseconds keyed on tool name globs; first match wins over TOOL_CACHE_TTL_MS
+  cacheTtls?: Record<string, number>;
+  // Cached tools (globs) invalidated by a successful mutating call, keyed on mutating tool globs
+  cacheInvalidation?: Record<string, string[]>;
+  // Per-caller, per-organization and per-tool rate limits and daily quotas
+  rateLimits?: RateLimitConfig;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  // The rule that produced the decision, e.g. "callers.api-key:ci.deny[0]"
+  rule?: string;
+}
+
+export class PolicyDeniedError extends Error {
+  constructor(public toolName: string, public reason: string, public rule?: string, public argument?: string) {
+    super(`Tool '${toolName}' denied by policy: ${reason}`);
+    this.name = 'PolicyDeniedError';
+  }
+}
+
+// Name segments that mark an upstream tool as writing to Azure DevOps
+const MUTATING_SEGMENTS = new Set([
+  'write', 'create', 'update', 'upsert', 'delete', 'add', 'remove', 'queue',
+  'complete', 'link', 'unlink', 'assign', 'set', 'edit', 'reply', 'resolve',
+  'vote', 'merge', 'abandon', 'trigger', 'upload', 'move', 'close', 'reopen'
+]);
+
+/**
+ * Tool allow/deny policy with a read-only mode, consulted by MCPClientManager
+ */
+export class PolicyEngine {
+  constructor(private config: PolicyConfig = {}) {}
+
+  /**
+   * Classify a tool as mutating from its annotations, configured patterns or name
+   */
+  isMutating(tool: MCPTool | string): boolean {
+    const name = typeof tool === 'string' ? tool : tool.name;
+    const annotations = typeof tool === 'string' ? undefined : tool.annotations;
+
+    if (this.config.readOnlyTools && matchesAny(name, this.config.readOnlyTools) !== -1) {
+      return false;
+    }
+    if (this.config.mutatingTools && matchesAny(name, this.config.mutatingTools) !== -1) {
+      return true;
+    }
+    if (typeof annotations?.readOnlyHint === 'boolean') {
+      return !annotations.readOnlyHint;
+    }
+
+    return name.toLowerCase().split(/[_\-.]/).some(segment => MUTATING_SEGMENTS.has(segment));
+  }
+
+  evaluate(tool: MCPTool | string, caller?: CallerIdentity): PolicyDecision {
+    const name = typeof tool === 'string' ? tool : tool.name;
+
+    const globalDecision = this.evaluateRules(name, this.config, '');
+    if (!globalDecision.allowed) {
+      return globalDecision;
+    }
+
+    const callerRules = caller ? this.config.callers?.[caller.id] : undefined;
+    if (callerRules) {
+      const callerDecision = this.evaluateRules(name, callerRules, `callers.${caller!.id}.`);
+      if (!callerDecision.allowed) {
+        return callerDecision;
+      }
+    }
+
+    const readOnly = callerRules?.readOnly ?? (isReadOnlyEnvironment() || this.config.readOnly === true);
+    if (readOnly && this.isMutating(tool)) {
+      return {
+        allowed: false,
+        reason: 'mutating tools are disabled in read-only mode',
+        rule: callerRules?.readOnly !== undefined ? `callers.${caller!.id}.readOnly` : 'readOnly'
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Check the requested upstream domains against the permitted ones. When the caller
+   * did not choose any, the result narrows them to the permitted list (if it has no globs).
+   */
+  resolveDomains(requested: string[] | undefined, caller?: CallerIdentity): PolicyDecision & { domains?: string[] } {
+    const callerDomains = caller ? this.config.callers?.[caller.id]?.domains : undefined;
+    const permitted = callerDomains ?? this.config.domains;
+    const rule = callerDomains ? `callers.${caller!.id}.domains` : 'domains';
+
+    if (!permitted) {
+      return { allowed: true, domains: requested };
+    }
+
+    if (!requested) {
+      if (permitted.some(pattern => /[*?]/.test(pattern))) {
+        return { allowed: false, reason: 'a domain selection (X-MCP-Domains) is required', rule };
+      }
+      return { allowed: true, domains: [...permitted].sort() };
+    }
+
+    const denied = requested.find(domain => matchesAny(domain, permitted) === -1);
+    if (denied) {
+      return { allowed: false, reason: `domain '${denied}' is not permitted`, rule };
+    }
+
+    return { allowed: true, domains: requested };
+  }
+
+  /**
+   * Throw PolicyDeniedError when the tool is not allowed for the caller
+   */
+  assertAllowed(tool: MCPTool | string, caller?: CallerIdentity): void {
+    const decision = this.evaluate(tool, caller);
+    if (!decision.allowed) {
+      const name = typeof tool === 'string' ? tool : tool.name;
+      throw new PolicyDeniedError(name, decision.reason || 'not allowed', decision.rule);
+    }
+  }
+
+  /**
+   * Apply argument constraints for the tool, returning the (possibly rewritten) arguments.
+   * Throws PolicyDeniedError naming the constraint that fired.
+   */
+  applyConstraints(toolName: string, args: Record<string, unknown>, caller?: CallerIdentity): Record<string, unknown> {
+    const constraints = this.config.constraints || [];
+    let result = args;
+
+    constraints.forEach((constraint, index) => {
+      if (constraint.tools && matchesAny(toolName, constraint.tools) === -1) {
+        return;
+      }
+      if (constraint.callers && (!caller || matchesAny(caller.id, constraint.callers) === -1)) {
+        return;
+      }
+
+      const rule = constraint.name || `constraints[${index}]`;
+      const reject = (reason: string): never => {
+        throw new PolicyDeniedError(toolName, `argument '${constraint.argument}' ${reason}`, rule, constraint.argument);
+      };
+
+      const path = constraint.argument.split('.');
+      let value = getPath(result, path);
+
+      if (value === undefined && constraint.default !== undefined) {
+        result = setPath(result, path, constraint.default);
+        value = constraint.default;
+      }
+
+      if (value === undefined) {
+        if (constraint.required) {
+          reject('is required');
+        }
+        return;
+      }
+
+      if (constraint.in && !constraint.in.some(allowed => valuesEqual(allowed, value))) {
+        reject(`must be one of ${constraint.in.map(v => JSON.stringify(v)).join(', ')}`);
+      }
+      if (constraint.notIn && constraint.notIn.some(denied => valuesEqual(denied, value))) {
+        reject(`must not be ${JSON.stringify(value)}`);
+      }
+      if (constraint.matches && !new RegExp(constraint.matches).test(String(value))) {
+        reject(`must match /${constraint.matches}/`);
+      }
+      if (constraint.notMatches && new RegExp(constraint.notMatches).test(String(value))) {
+        reject(`must not match /${constraint.notMatches}/`);
+      }
+
+      if (constraint.min !== undefined || constraint.max !== undefined) {
+        const numeric = Number(value);
+        if (Number.isNaN(numeric)) {
+          reject('must be a number');
+        }
+
+        if (constraint.min !== undefined && numeric < constraint.min) {
+          if (!constraint.clamp) reject(`must be >= ${constraint.min}`);
+          result = setPath(result, path, constraint.min);
+        } else if (constraint.max !== undefined && numeric > constraint.max) {
+          if (!constraint.clamp) reject(`must be <= ${constraint.max}`);
+          result = setPath(result, path, constraint.max);
+        }
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Whether calls to the tool must be approved by a human before they execute
+   */
+  requiresApproval(tool: MCPTool | string): boolean {
+    const name = typeof tool === 'string' ? tool : tool.name;
+    const requireApproval = this.config.requireApproval ??
+      (process.env.REQUIRE_APPROVAL === 'true' || process.env.REQUIRE_APPROVAL === '1');
+
+    if (Array.isArray(requireApproval)) {
+      return matchesAny(name, requireApproval) !== -1;
+    }
+    return requireApproval && this.isMutating(tool);
+  }
+
+  /**
+   * Timeout for an upstream call to the tool in milliseconds
+   */
+  getTimeout(toolName: string): number {
+    const timeouts = this.config.timeouts || {};
+    const index = matchesAny(toolName, Object.keys(timeouts));
+    if (index !== -1) {
+      return Object.values(timeouts)[index];
+    }
+    return parseInt(process.env.TOOL_TIMEOUT_MS || '60000', 10);
+  }
+
+  /**
+   * How long a read-only tool's result may be served from cache in milliseconds; 0 disables caching
+   */
+  getCacheTtl(toolName: string): number {
+    const ttls = this.config.cacheTtls || {};
+    const index = matchesAny(toolName, Object.keys(ttls));
+    if (index !== -1) {
+      return Object.values(ttls)[index];
+    }
+    return parseInt(process.env.TOOL_CACHE_TTL_MS || '0', 10);
+  }
+
+  /**
+   * Tool globs whose cached results a write by the tool invalidates;
+   * defaults to tools sharing its prefix (wit_update_work_item invalidates wit_*)
+   */
+  getCacheInvalidation(toolName: string): string[] {
+    const invalidation = this.config.cacheInvalidation || {};
+    const index = matchesAny(toolName, Object.keys(invalidation));
+    if (index !== -1) {
+      return Object.values(invalidation)[index];
+    }
+    return [`${toolName.split('_')[0]}_*`];
+  }
+
+  getRateLimits(): RateLimitConfig {
+    return this.config.rateLimits || {};
+  }
+
+  filterTools(tools: MCPTool[], caller?: CallerIdentity): MCPTool[] {
+    return tools.filter(tool => this.evaluate(tool, caller).allowed);
+  }
+
+  private evaluateRules(name: string, rules: ToolRules, prefix: string): PolicyDecision {
+    if (rules.deny) {
+      const index = matchesAny(name, rules.deny);
+      if (index !== -1) {
+        return { allowed: false, reason: `matches deny rule '${rules.deny[index]}'`, rule: `${prefix}deny[${index}]` };
+      }
+    }
+
+    if (rules.allow && matchesAny(name, rules.allow) === -1) {
+      return { allowed: false, reason: 'not in allow list', rule: `${prefix}allow` };
+    }
+
+    return { allowed: true };
+  }
+}
+
+/**
+ * Load the policy from POLICY_FILE (JSON); without one only READ_ONLY applies
+ */
+export function loadPolicyEngine(): PolicyEngine {
+  const policyFile = process.env.POLICY_FILE;
+  if (!policyFile) {
+    return new PolicyEngine();
+  }
+
+  const config: PolicyConfig = JSON.parse(fs.readFileSync(policyFile, 'utf8'));
+  logger.info('Loaded tool policy', { file: policyFile });
+  return new PolicyEngine(config);
+}
+
+function getPath(value: any, path: string[]): unknown {
+  return path.reduce((current, key) => (current != null ? current[key] : undefined), value);
+}
+
+/**
+ * Return a copy of the object with the value set at the path (the input is never mutated)
+ */
+function setPath(value: Record<string, unknown>, path: string[], newValue: unknown): Record<string, unknown> {
+  const [key, ...rest] = path;
+  const current = value[key];
+  return {
+    ...value,
+    [key]: rest.length === 0
+      ? newValue
+      : setPath(current && typeof current === 'object' ? current as Record<string, unknown> : {}, rest, newValue)
+  };
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return typeof a === 'string' && typeof b === 'string'
+    ? a.toLowerCase() === b.toLowerCase()
+    : a === b;
+}
+
+function isReadOnlyEnvironment(): boolean {
+  return process.env.READ_ONLY === 'true' || process.env.READ_ONLY === '1';
+}
+
+/**
+ * Index of the first glob pattern (supporting * and ?) matching the name, or -1
+ */
+export function matchesAny(name: string, patterns: string[]): number {
+  return patterns.findIndex(pattern => globToRegExp(pattern).test(name));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
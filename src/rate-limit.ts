@@ -0,0 +1,263 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { matchesAny } from './policy';
+import { logger } from './logger';
+import { rateLimitRejectionsTotal } from './metrics';
+
+/**
+ * JSON-RPC error code used when a call is rejected by a rate limit or quota
+ */
+export const RATE_LIMITED_ERROR_CODE = -32004;
+
+export type RateLimitScope = 'caller' | 'organization' | 'tool' | 'caller_quota' | 'organization_quota' | 'upstream';
+
+/**
+ * Rates are written as "<count>/<period>", e.g. "60/minute", "5/s" or "1000/hour"
+ */
+export interface RateLimitConfig {
+  // Token bucket per caller identity (falls back to RATE_LIMIT_CALLER)
+  caller?: string;
+  // Token bucket per organization, shared by all callers (falls back to RATE_LIMIT_ORG)
+  organization?: string;
+  // Token buckets per organization and tool, keyed on tool name globs; first match wins
+  tools?: Record<string, string>;
+  // Caller-specific rates overriding "caller", keyed on CallerIdentity.id
+  callers?: Record<string, string>;
+  dailyQuota?: {
+    // Calls per UTC day per caller (falls back to QUOTA_CALLER_DAILY)
+    caller?: number;
+    // Calls per UTC day per organization (falls back to QUOTA_ORG_DAILY)
+    organization?: number;
+    callers?: Record<string, number>;
+  };
+}
+
+export class RateLimitedError extends Error {
+  constructor(message: string, public scope: RateLimitScope, public retryAfterSeconds: number) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+interface Rate {
+  capacity: number;
+  perMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  rate: Rate;
+}
+
+interface BucketCheck {
+  key: string;
+  rate: Rate;
+  scope: RateLimitScope;
+  label: string;
+}
+
+const PERIODS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// Prune full buckets once this many are tracked
+const MAX_BUCKETS = 10000;
+
+// Upstream Retry-After is capped at this multiple of UPSTREAM_THROTTLE_BACKOFF_MS
+const THROTTLE_BACKOFF_CAP = 4;
+
+// Start of an upstream error message reporting throttling, e.g. "Error: TF400733: Request was blocked ..."
+// or "Error fetching builds: Failed request: (429)"
+const THROTTLE_TEXT = /^(?:[A-Z][A-Za-z ]{0,60}:\s*)?(?:TF400733\b|Failed request: \(429\)|(?:HTTP|Status) 429\b|429 Too Many Requests\b)/;
+
+/**
+ * Token-bucket rate limits and daily quotas for tool calls, plus a per-organization
+ * backoff after Azure DevOps reports throttling. State is in memory and resets on restart.
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private quotas: Map<string, { day: string; count: number }> = new Map();
+  private upstreamBackoff: Map<string, number> = new Map();
+  private rates: Map<string, Rate | undefined> = new Map();
+  private throttleBackoffMs: number;
+
+  constructor(private config: RateLimitConfig = {}) {
+    this.throttleBackoffMs = parseInt(process.env.UPSTREAM_THROTTLE_BACKOFF_MS || '30000', 10);
+  }
+
+  /**
+   * Count a call against every applicable limit, or throw without counting it anywhere
+   */
+  acquire(toolName: string, organization: string = '', callerId: string = 'anonymous'): void {
+    const now = Date.now();
+
+    const blockedUntil = this.upstreamBackoff.get(organization);
+    if (blockedUntil && blockedUntil > now) {
+      this.reject(`Azure DevOps is throttling organization '${organization}'`, 'upstream', blockedUntil - now);
+    }
+
+    const checks = this.getBucketChecks(toolName, organization, callerId);
+    for (const check of checks) {
+      const bucket = this.refill(check, now);
+      if (bucket.tokens < 1) {
+        this.reject(`Rate limit exceeded for ${check.label}`, check.scope, (1 - bucket.tokens) * check.rate.perMs / check.rate.capacity);
+      }
+    }
+
+    const day = new Date(now).toISOString().slice(0, 10);
+    const quotaChecks = this.getQuotaChecks(organization, callerId);
+    for (const { key, limit, scope, label } of quotaChecks) {
+      const usage = this.quotas.get(key);
+      if (usage && usage.day === day && usage.count >= limit) {
+        const midnight = new Date(`${day}T00:00:00.000Z`).getTime() + PERIODS.d;
+        this.reject(`Daily quota of ${limit} calls exhausted for ${label}`, scope, midnight - now);
+      }
+    }
+
+    for (const check of checks) {
+      this.buckets.get(check.key)!.tokens -= 1;
+    }
+    for (const { key } of quotaChecks) {
+      const usage = this.quotas.get(key);
+      this.quotas.set(key, { day, count: usage && usage.day === day ? usage.count + 1 : 1 });
+    }
+  }
+
+  /**
+   * Back off the whole organization when a tool result or error shows Azure DevOps throttling
+   * (HTTP 429 or TF400733). A Retry-After from the signal is honored up to THROTTLE_BACKOFF_CAP
+   * times UPSTREAM_THROTTLE_BACKOFF_MS, otherwise that backoff applies.
+   */
+  observeUpstream(organization: string = '', resultOrError: any): void {
+    const signal = findThrottleSignal(resultOrError);
+    if (!signal) {
+      return;
+    }
+
+    const retryAfter = Number(signal.retryAfter);
+    const backoffMs = Number.isFinite(retryAfter) && retryAfter > 0
+      ? Math.min(retryAfter * 1000, this.throttleBackoffMs * THROTTLE_BACKOFF_CAP)
+      : this.throttleBackoffMs;
+    this.upstreamBackoff.set(organization, Math.max(this.upstreamBackoff.get(organization) || 0, Date.now() + backoffMs));
+    logger.warn('Azure DevOps throttling detected, backing off organization', { organization, backoffMs });
+  }
+
+  private getBucketChecks(toolName: string, organization: string, callerId: string): BucketCheck[] {
+    const checks: BucketCheck[] = [];
+    const add = (key: string, value: string | undefined, scope: RateLimitScope, label: string) => {
+      if (value && !this.rates.has(value)) {
+        this.rates.set(value, parseRate(value));
+      }
+      const rate = value ? this.rates.get(value) : undefined;
+      if (rate) {
+        checks.push({ key, rate, scope, label });
+      }
+    };
+
+    add(`caller|${callerId}`, this.config.callers?.[callerId] ?? this.config.caller ?? process.env.RATE_LIMIT_CALLER, 'caller', `caller '${callerId}'`);
+    add(`org|${organization}`, this.config.organization ?? process.env.RATE_LIMIT_ORG, 'organization', `organization '${organization}'`);
+
+    const tools = this.config.tools || {};
+    const index = matchesAny(toolName, Object.keys(tools));
+    if (index !== -1) {
+      add(`tool|${organization}|${toolName}`, Object.values(tools)[index], 'tool', `tool '${toolName}'`);
+    }
+    return checks;
+  }
+
+  private getQuotaChecks(organization: string, callerId: string): Array<{ key: string; limit: number; scope: RateLimitScope; label: string }> {
+    const quota = this.config.dailyQuota || {};
+    const callerLimit = quota.callers?.[callerId] ?? quota.caller ?? parseOptionalInt(process.env.QUOTA_CALLER_DAILY);
+    const orgLimit = quota.organization ?? parseOptionalInt(process.env.QUOTA_ORG_DAILY);
+
+    const checks = [];
+    if (callerLimit) {
+      checks.push({ key: `caller|${callerId}`, limit: callerLimit, scope: 'caller_quota' as const, label: `caller '${callerId}'` });
+    }
+    if (orgLimit) {
+      checks.push({ key: `org|${organization}`, limit: orgLimit, scope: 'organization_quota' as const, label: `organization '${organization}'` });
+    }
+    return checks;
+  }
+
+  private refill(check: BucketCheck, now: number): Bucket {
+    let bucket = this.buckets.get(check.key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_BUCKETS) {
+        this.pruneFullBuckets(now);
+      }
+      bucket = { tokens: check.rate.capacity, updatedAt: now, rate: check.rate };
+      this.buckets.set(check.key, bucket);
+    }
+
+    bucket.tokens = refilledTokens(bucket, now);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  // A bucket idle long enough to refill completely behaves exactly like a new one
+  private pruneFullBuckets(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (refilledTokens(bucket, now) >= bucket.rate.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private reject(message: string, scope: RateLimitScope, waitMs: number): never {
+    rateLimitRejectionsTotal.inc({ scope });
+    const retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+    throw new RateLimitedError(`${message}; retry after ${retryAfterSeconds}s`, scope, retryAfterSeconds);
+  }
+}
+
+/**
+ * Throttling reported by Azure DevOps: HTTP 429 or TF400733 ("request blocked due to exceeding
+ * usage of resource"), with the Retry-After seconds when present. Structured fields are checked
+ * on errors and results; @azure-devops/mcp reports failures only as isError text, so the first
+ * line of that text is matched too, anchored at the start (after an optional static prefix such
+ * as "Error fetching pull requests: ") so arguments echoed later in the message cannot trip it.
+ */
+function findThrottleSignal(resultOrError: any): { retryAfter?: unknown } | undefined {
+  const candidates: any[] = resultOrError instanceof Error
+    ? [resultOrError, resultOrError instanceof McpError ? resultOrError.data : undefined]
+    : resultOrError?.isError
+      ? [resultOrError.structuredContent, resultOrError._meta]
+      : [];
+  const structured = candidates.find(value => value && typeof value === 'object' &&
+    [value.status, value.statusCode, value.code].some(field => field === 429 || field === 'TF400733'));
+  if (structured) {
+    const headers = structured.headers || structured.responseHeaders;
+    return { retryAfter: structured.retryAfter ?? headers?.['retry-after'] };
+  }
+
+  const text = resultOrError instanceof Error
+    ? resultOrError.message
+    : resultOrError?.isError
+      ? resultOrError.content?.find((item: any) => item.type === 'text')?.text
+      : undefined;
+  const firstLine = typeof text === 'string' ? text.split('\n', 1)[0] : '';
+  if (!THROTTLE_TEXT.test(firstLine)) {
+    return undefined;
+  }
+  return { retryAfter: firstLine.match(/\bRetry-After:\s*(\d+)\b/i)?.[1] };
+}
+
+function refilledTokens(bucket: Bucket, now: number): number {
+  const refilled = (now - bucket.updatedAt) * bucket.rate.capacity / bucket.rate.perMs;
+  return Math.min(bucket.rate.capacity, bucket.tokens + refilled);
+}
+
+function parseRate(value: string): Rate | undefined {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d*)\s*(s|sec|second|m|min|minute|h|hour|d|day)s?$/i);
+  if (!match) {
+    logger.warn('Ignoring invalid rate limit', { value });
+    return undefined;
+  }
+
+  const capacity = parseInt(match[1], 10);
+  const periods = match[2] ? parseInt(match[2], 10) : 1;
+  return capacity > 0 ? { capacity, perMs: periods * PERIODS[match[3][0].toLowerCase()] } : undefined;
+}
+
+function parseOptionalInt(value?: string): number | undefined {
+  return value ? parseInt(value, 10) : undefined;
+}
@@ -0,0 +1,55 @@
+const REDACTED = '[REDACTED]';
+
+// Argument / field names whose values are always masked
+const DEFAULT_SENSITIVE_KEYS = [
+  'authorization', 'cookie', 'set-cookie', 'token', 'accesstoken', 'access_token',
+  'password', 'secret', 'pat', 'personalaccesstoken', 'apikey', 'api_key', 'x-api-key',
+  'x-azure-devops-pat', 'x-azure-devops-token', 'clientsecret', 'client_secret'
+];
+
+// Credentials embedded in free text: auth header values and JWTs
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+\/=-]{16,}/gi, `$1 ${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED]
+];
+
+/**
+ * Extra keys to mask, from REDACT_KEYS (comma separated)
+ */
+function getSensitiveKeys(): Set<string> {
+  const extra = (process.env.REDACT_KEYS || '')
+    .split(',')
+    .map(key => key.trim().toLowerCase())
+    .filter(Boolean);
+  return new Set([...DEFAULT_SENSITIVE_KEYS, ...extra]);
+}
+
+/**
+ * Mask credentials that appear inside a string
+ */
+export function redactString(value: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+}
+
+/**
+ * Deep copy of a value with sensitive keys and embedded credentials masked
+ */
+export function redact<T>(value: T, sensitiveKeys: Set<string> = getSensitiveKeys()): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, sensitiveKeys)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = sensitiveKeys.has(key.toLowerCase()) ? REDACTED : redact(item, sensitiveKeys);
+    }
+    return result as T;
+  }
+
+  if (typeof value === 'string') {
+    return redactString(value) as unknown as T;
+  }
+
+  return value;
+}
@@ -0,0 +1,80 @@
+import { matchesAny } from './policy';
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+interface CacheEntry {
+  result: any;
+  organization?: string;
+  toolName: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache of read-only tool results. Keys combine the upstream client key
+ * (so entries never cross credentials), the tool name and the canonicalized arguments.
+ * Oldest entries are evicted beyond TOOL_CACHE_MAX_ENTRIES.
+ */
+export class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor() {
+    this.maxEntries = parseInt(process.env.TOOL_CACHE_MAX_ENTRIES || '1000', 10);
+  }
+
+  key(clientKey: string, toolName: string, args: Record<string, unknown>): string {
+    return `${clientKey}\n${toolName}\n${canonicalize(args)}`;
+  }
+
+  get(key: string): any | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  set(key: string, result: any, ttlMs: number, toolName: string, organization?: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, { result, organization, toolName, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Drop entries for the organization whose tool matches one of the glob patterns;
+   * a write changes Azure DevOps for every credential, so this is not limited to one client key
+   */
+  invalidate(organization: string | undefined, toolPatterns: string[]): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.organization === organization && matchesAny(entry.toolName, toolPatterns) !== -1) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * JSON with object keys sorted, so argument order does not affect the cache key
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
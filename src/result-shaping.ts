@@ -0,0 +1,219 @@
+export type ResultFormat = 'json' | 'markdown' | 'csv';
+
+export interface ShapeOptions {
+  // Field paths to keep from JSON text content, e.g. ["id", "fields.\"System.Title\""]; arrays are projected per element
+  fields?: string[];
+  // Render JSON text content as compact JSON, a markdown table or CSV
+  format?: ResultFormat;
+  // Cut each text content to this many characters, starting at offset
+  maxChars?: number;
+  offset?: number;
+}
+
+/**
+ * Thrown when shaping options are malformed
+ */
+export class ShapeOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapeOptionsError';
+  }
+}
+
+type FieldTree = { [key: string]: FieldTree | true };
+
+const FORMATS: ResultFormat[] = ['json', 'markdown', 'csv'];
+
+/**
+ * Parse shaping options from query parameters or a _meta.shape object.
+ * RESULT_MAX_CHARS applies when no maxChars is given.
+ */
+export function parseShapeOptions(raw: Record<string, unknown> = {}): ShapeOptions | undefined {
+  const options: ShapeOptions = {};
+
+  if (raw.fields !== undefined) {
+    const fields = Array.isArray(raw.fields) ? raw.fields.map(String) : String(raw.fields).split(',');
+    options.fields = fields.map(field => field.trim()).filter(Boolean);
+  }
+
+  if (raw.format !== undefined) {
+    if (!FORMATS.includes(raw.format as ResultFormat)) {
+      throw new ShapeOptionsError(`format must be one of ${FORMATS.join(', ')}`);
+    }
+    options.format = raw.format as ResultFormat;
+  }
+
+  const maxChars = raw.maxChars ?? process.env.RESULT_MAX_CHARS;
+  if (maxChars !== undefined && maxChars !== '') {
+    options.maxChars = parseNonNegativeInt('maxChars', maxChars);
+  }
+  if (raw.offset !== undefined) {
+    options.offset = parseNonNegativeInt('offset', raw.offset);
+  }
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Apply projection, formatting and truncation to a CallToolResult; error results are returned unchanged.
+ * Text content that is not JSON is only truncated.
+ */
+export function shapeToolResult(result: any, options?: ShapeOptions): any {
+  if (!options || !result || result.isError) {
+    return result;
+  }
+
+  const tree = options.fields && options.fields.length > 0 ? buildFieldTree(options.fields) : undefined;
+  let truncated: { offset: number; nextOffset: number; totalChars: number } | undefined;
+
+  const content = (result.content || []).map((item: any) => {
+    if (item.type !== 'text' || typeof item.text !== 'string') {
+      return item;
+    }
+
+    let text = item.text;
+    const json = parseJson(text);
+    if (json !== undefined && (tree || options.format)) {
+      text = render(tree ? project(json, tree) : json, options.format || 'json');
+    }
+
+    if (options.maxChars || options.offset) {
+      const offset = Math.min(options.offset || 0, text.length);
+      const end = options.maxChars ? Math.min(offset + options.maxChars, text.length) : text.length;
+      if (offset > 0 || end < text.length) {
+        truncated = { offset, nextOffset: end, totalChars: text.length };
+        text = text.slice(offset, end) + (end < text.length
+          ? `\n[truncated: characters ${offset}-${end} of ${text.length}; repeat with offset=${end} to continue]`
+          : '');
+      }
+    }
+
+    return { ...item, text };
+  });
+
+  return {
+    ...result,
+    content,
+    ...(tree && result.structuredContent !== undefined ? { structuredContent: project(result.structuredContent, tree) } : {}),
+    ...(truncated ? { _meta: { ...result._meta, truncated } } : {})
+  };
+}
+
+function parseNonNegativeInt(name: string, value: unknown): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new ShapeOptionsError(`${name} must be a non-negative integer`);
+  }
+  return number;
+}
+
+function parseJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a field path on dots outside double quotes; "[*]" is accepted and ignored
+ * since arrays are always projected per element
+ */
+function parsePath(path: string): string[] {
+  const segments = path.replace(/\[\*\]/g, '').match(/"[^"]*"|[^.]+/g) || [];
+  return segments.map(segment => segment.startsWith('"') ? segment.slice(1, -1) : segment);
+}
+
+function buildFieldTree(fields: string[]): FieldTree {
+  const tree: FieldTree = {};
+  for (const field of fields) {
+    const segments = parsePath(field);
+    let node = tree;
+    for (const [index, segment] of segments.entries()) {
+      if (index === segments.length - 1) {
+        node[segment] = true;
+      } else if (node[segment] === true) {
+        // Already selected whole by a shorter path
+        break;
+      } else {
+        node = (node[segment] = (node[segment] as FieldTree) || {}) as FieldTree;
+      }
+    }
+  }
+  return tree;
+}
+
+function project(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, tree));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const projected: Record<string, unknown> = {};
+  for (const [key, subtree] of Object.entries(tree)) {
+    if (key in value) {
+      const field = (value as Record<string, unknown>)[key];
+      projected[key] = subtree === true ? field : project(field, subtree);
+    }
+  }
+  return projected;
+}
+
+function render(value: unknown, format: ResultFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(value);
+  }
+
+  // Arrays become one row per element; a single object becomes one row
+  const rows = (Array.isArray(value) ? value : [value]).map(row => flatten(row));
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  if (columns.length === 0) {
+    return '(no rows)';
+  }
+
+  if (format === 'csv') {
+    return [columns, ...rows.map(row => columns.map(column => row[column]))]
+      .map(cells => cells.map(csvCell).join(','))
+      .join('\n');
+  }
+
+  const cell = (value: unknown) => formatCell(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  return [
+    `| ${columns.map(cell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => cell(row[column])).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Nested objects become dotted column names; arrays and primitives stay as values
+ */
+function flatten(value: unknown, prefix = '', result: Record<string, unknown> = {}): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    result[prefix || 'value'] = value;
+    return result;
+  }
+
+  for (const [key, field] of Object.entries(value)) {
+    flatten(field, prefix ? `${prefix}.${key}` : key, result);
+  }
+  return result;
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvCell(value: unknown): string {
+  const text = formatCell(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
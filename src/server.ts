@@ -4,15 +4,36 @@ import dotenv from 'dotenv';
 import https from 'https';
 import fs from 'fs';
 import path from 'path';
+import { randomUUID } from 'crypto';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { MCPClientManager } from './mcp-client';
-import { extractAuthenticationMiddleware, validateAuthenticationMiddleware } from './auth-middleware';
+import { MCPSessionManager } from './mcp-session';
+import { AuthenticationContext, createInboundAuthMiddleware, extractAuthenticationMiddleware, validateAuthenticationMiddleware } from './auth-middleware';
+import { createInboundAuthenticators, getInboundAuthMethods } from './inbound-auth';
+import { PolicyDeniedError } from './policy';
+import { ArgumentValidationError } from './validation';
+import { RateLimitedError } from './rate-limit';
+import { AuditSource } from './audit';
+import { ApprovalPendingError, ApprovalRequest, ApprovalStatus } from './approvals';
+import { logger, runWithRequestId } from './logger';
+import { httpRequestDuration, registry } from './metrics';
+import { buildOpenApiDocument, renderApiDocsPage } from './openapi';
+import { BatchOptions, BatchRunner, validateBatch } from './batch';
+import { CacheStatus } from './response-cache';
+import { ShapeOptions, ShapeOptionsError, parseShapeOptions, shapeToolResult } from './result-shaping';
+import { JobManager, JobRejectedError } from './jobs';
 
 // Load environment variables
 dotenv.config();
 
+// Served without inbound authentication
+const PUBLIC_PATHS = ['/health', '/metrics', '/docs'];
+
 class Server {
   private app: express.Application;
   private mcpClient: MCPClientManager;
+  private mcpSessions: MCPSessionManager;
+  private jobs: JobManager;
   private port: number;
   private httpsPort: number;
   private useHttps: boolean;
@@ -23,19 +44,44 @@ class Server {
     this.httpsPort = parseInt(process.env.HTTPS_PORT || '3001', 10);
     this.useHttps = process.env.ENABLE_HTTPS === 'true' || process.env.ENABLE_HTTPS === '1';
     this.mcpClient = new MCPClientManager();
+    this.mcpSessions = new MCPSessionManager(this.mcpClient);
+    this.jobs = new JobManager(error => this.describeToolCallError(error));
     this.setupMiddleware();
     this.setupRoutes();
   }
 
   private setupMiddleware(): void {
-    // Add request logging
+    // Assign a request ID and log each request (headers and body are redacted by the logger)
     this.app.use((req, res, next) => {
-      console.log(`${new Date().toISOString()} ${req.method} ${req.url}`);
-      console.log('Headers:', req.headers);
-      if (req.body && Object.keys(req.body).length > 0) {
-        console.log('Body:', JSON.stringify(req.body, null, 2));
-      }
-      next();
+      const incomingId = req.headers['x-request-id'] as string;
+      const requestId = incomingId && incomingId.length <= 128 ? incomingId : randomUUID();
+      const startTime = Date.now();
+      res.setHeader('X-Request-Id', requestId);
+
+      res.on('finish', () => {
+        // Label by route pattern rather than URL to keep cardinality bounded
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+        httpRequestDuration.observe(
+          { method: req.method, route, status: String(res.statusCode) },
+          (Date.now() - startTime) / 1000
+        );
+
+        logger.info('Request completed', {
+          requestId,
+          method: req.method,
+          url: req.originalUrl,
+          status: res.statusCode,
+          durationMs: Date.now() - startTime
+        });
+        if (logger.isLevelEnabled('debug') && req.body && Object.keys(req.body).length > 0) {
+          logger.debug('Request body', { requestId, body: req.body });
+        }
+      });
+
+      runWithRequestId(requestId, () => {
+        logger.debug('Request received', { method: req.method, url: req.originalUrl, headers: req.headers });
+        next();
+      });
     });
 
     // CORS configuration
@@ -44,11 +90,22 @@ class Server {
         'Content-Type',
         'Authorization',
         'X-API-Key',
+        'X-Azure-DevOps-Org',
+        'X-Azure-DevOps-PAT',
+        'X-Azure-DevOps-Token',
         'X-MCP-Server-Url',
         'MCP-Server-Url',
         'X-MCP-Transport-Type',
-        'MCP-Transport-Type'
-      ]
+        'MCP-Transport-Type',
+        'X-MCP-Domains',
+        'X-Approval-Id',
+        'Cache-Control',
+        'Mcp-Session-Id',
+        'MCP-Protocol-Version',
+        'Last-Event-ID',
+        'X-Request-Id'
+      ],
+      exposedHeaders: ['Mcp-Session-Id', 'X-Request-Id', 'X-Cache', 'Retry-After']
     }));
     
     // Body parsing
@@ -56,6 +113,23 @@ class Server {
     
     // Extract authentication context from headers
     this.app.use(extractAuthenticationMiddleware);
+
+    // Authenticate callers of the wrapper (API keys / JWT), /health, /metrics and /docs stay public
+    this.app.use(createInboundAuthMiddleware(createInboundAuthenticators(), PUBLIC_PATHS));
+
+    // Narrow the requested upstream domains to those the caller may enable
+    this.app.use((req: Request, res: Response, next) => {
+      if (!req.authContext || PUBLIC_PATHS.includes(req.path)) {
+        return next();
+      }
+
+      const decision = this.mcpClient.resolveDomains(req.authContext.mcpDomains, req.authContext.caller);
+      if (!decision.allowed) {
+        return res.status(403).json({ error: `Domain selection denied by policy: ${decision.reason}`, rule: decision.rule });
+      }
+      req.authContext.mcpDomains = decision.domains;
+      next();
+    });
   }
 
   private setupRoutes(): void {
@@ -64,6 +138,12 @@ class Server {
       res.json({ status: 'healthy', timestamp: new Date().toISOString() });
     });
 
+    // Prometheus metrics
+    this.app.get('/metrics', async (req: Request, res: Response) => {
+      res.setHeader('Content-Type', registry.contentType);
+      res.send(await registry.metrics());
+    });
+
     // Configuration endpoint to set Azure DevOps organization
     this.app.post('/configure', (req: Request, res: Response) => {
       const { azureDevOpsOrg } = req.body;
@@ -105,12 +185,21 @@ class Server {
     });
 
     // MCP Initialize endpoint
-    this.app.post('/initialize', (req: Request, res: Response) => {
+    this.app.post('/initialize', async (req: Request, res: Response) => {
+      const authContext = req.authContext;
+
+      // Advertise what the upstream server reports once its client is available
+      if (authContext?.azureDevOpsOrg) {
+        try {
+          await this.mcpClient.getOrCreateClient(authContext);
+        } catch (error) {
+          logger.error('Failed to create MCP client during initialize', { error });
+        }
+      }
+
       res.json({
         protocolVersion: '2025-06-18',
-        capabilities: {
-          tools: {}
-        },
+        capabilities: this.mcpClient.getServerCapabilities(authContext),
         serverInfo: {
           name: 'azure-devops-mcp-rest-wrapper',
           version: '1.0.0'
@@ -118,278 +207,35 @@ class Server {
       });
     });
 
-    // MCP HTTP transport endpoint - Server-Sent Events for streaming
-    this.app.get('/api/mcp', (req: Request, res: Response) => {
-      console.log('SSE connection established');
-      
-      // Set SSE headers for streaming MCP protocol
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-
-      // Don't send anything initially - wait for POST requests to trigger responses
-      
-      // Keep connection alive with periodic ping
-      const pingInterval = setInterval(() => {
-        if (!res.headersSent) {
-          try {
-            res.write(': ping\n\n');
-          } catch (e) {
-            clearInterval(pingInterval);
-          }
-        }
-      }, 30000);
-
-      // Store this response object for sending messages back to client
-      // In a real implementation, you'd want a proper session management system
-      (req as any).sseResponse = res;
-
-      // Handle client disconnect
-      req.on('close', () => {
-        console.log('SSE connection closed');
-        clearInterval(pingInterval);
-      });
-
-      req.on('aborted', () => {
-        console.log('SSE connection aborted');
-        clearInterval(pingInterval);
-      });
-    });
-
-    // MCP JSON-RPC over HTTP endpoint - handles the actual MCP protocol messages
+    // MCP Streamable HTTP endpoint - JSON-RPC requests, notifications and batches
     this.app.post('/api/mcp', async (req: Request, res: Response) => {
       try {
-        const { jsonrpc, method, params, id } = req.body;
-
-        // Validate JSON-RPC format
-        if (jsonrpc !== '2.0') {
-          return res.json({
+        await this.mcpSessions.handlePost(req, res);
+      } catch (error: any) {
+        logger.error('Error handling MCP request', { error });
+        if (!res.headersSent) {
+          res.status(500).json({
             jsonrpc: '2.0',
-            id,
+            id: null,
             error: {
-              code: -32600,
-              message: 'Invalid Request - jsonrpc must be 2.0'
+              code: -32603,
+              message: error.message
             }
           });
         }
-
-        switch (method) {
-          case 'initialize':
-            // For MCP HTTP transport, we need to get auth from request context
-            // Since VS Code doesn't send auth headers by default, we'll create a default client
-            try {
-              // Try to initialize with environment variables if available
-              const defaultAuthContext = {
-                azureDevOpsOrg: process.env.AZURE_DEVOPS_ORG,
-                mcpTransportType: 'stdio' as const
-              };
-
-              if (defaultAuthContext.azureDevOpsOrg) {
-                await this.mcpClient.getOrCreateClient(defaultAuthContext);
-              }
-
-              res.json({
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  protocolVersion: '2025-06-18',
-                  capabilities: {
-                    tools: {}
-                  },
-                  serverInfo: {
-                    name: 'azure-devops-mcp-rest-wrapper',
-                    version: '1.0.0'
-                  }
-                }
-              });
-            } catch (error: any) {
-              res.json({
-                jsonrpc: '2.0',
-                id,
-                error: {
-                  code: -32603,
-                  message: `Initialization failed: ${error.message}`
-                }
-              });
-            }
-            break;
-
-          case 'tools/list':
-            try {
-              // Get auth context from environment
-              let authContext = req.authContext;
-
-              if (!authContext?.azureDevOpsOrg) {
-                // Fallback to environment variables
-                authContext = {
-                  azureDevOpsOrg: process.env.AZURE_DEVOPS_ORG,
-                  mcpTransportType: 'stdio' as const
-                };
-              }
-
-              if (!authContext?.azureDevOpsOrg) {
-                return res.json({
-                  jsonrpc: '2.0',
-                  id,
-                  error: {
-                    code: -32603,
-                    message: 'Azure DevOps organization not configured. Please provide your organization name.',
-                    data: {
-                      type: 'configuration_required',
-                      required_fields: [
-                        {
-                          name: 'azureDevOpsOrg',
-                          description: 'Your Azure DevOps organization name (e.g., "mycompany")',
-                          prompt: 'What is your Azure DevOps organization name?'
-                        }
-                      ],
-                      instructions: 'You can either:\n1. Set AZURE_DEVOPS_ORG environment variable\n2. Provide it in the MCP client configuration\n3. Ensure Azure CLI is authenticated (az login) and configured'
-                    }
-                  }
-                });
-              }
-
-              // Ensure client is available for this auth context
-              await this.mcpClient.getOrCreateClient(authContext);
-              
-              if (!this.mcpClient.isReady(authContext)) {
-                return res.json({
-                  jsonrpc: '2.0',
-                  id,
-                  error: {
-                    code: -32603,
-                    message: 'MCP client not ready'
-                  }
-                });
-              }
-              
-              const tools = this.mcpClient.getTools(authContext);
-              res.json({
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  tools: tools
-                }
-              });
-            } catch (error: any) {
-              res.json({
-                jsonrpc: '2.0',
-                id,
-                error: {
-                  code: -32603,
-                  message: error.message
-                }
-              });
-            }
-            break;
-
-          case 'tools/call':
-            try {
-              // Get auth context from environment
-              let authContext = req.authContext;
-
-              if (!authContext?.azureDevOpsOrg) {
-                // Fallback to environment variables
-                authContext = {
-                  azureDevOpsOrg: process.env.AZURE_DEVOPS_ORG,
-                  mcpTransportType: 'stdio' as const
-                };
-              }
-
-              if (!authContext?.azureDevOpsOrg) {
-                return res.json({
-                  jsonrpc: '2.0',
-                  id,
-                  error: {
-                    code: -32603,
-                    message: 'Azure DevOps organization not configured. Please provide your organization name.',
-                    data: {
-                      type: 'configuration_required',
-                      required_fields: [
-                        {
-                          name: 'azureDevOpsOrg',
-                          description: 'Your Azure DevOps organization name (e.g., "mycompany")',
-                          prompt: 'What is your Azure DevOps organization name?'
-                        }
-                      ],
-                      instructions: 'You can either:\n1. Set AZURE_DEVOPS_ORG environment variable\n2. Provide it in the MCP client configuration\n3. Ensure Azure CLI is authenticated (az login) and configured'
-                    }
-                  }
-                });
-              }
-
-              // Ensure client is available for this auth context
-              await this.mcpClient.getOrCreateClient(authContext);
-              
-              if (!this.mcpClient.isReady(authContext)) {
-                return res.json({
-                  jsonrpc: '2.0',
-                  id,
-                  error: {
-                    code: -32603,
-                    message: 'MCP client not ready'
-                  }
-                });
-              }
-
-              const { name, arguments: args } = params;
-              const tool = this.mcpClient.getTool(name, authContext);
-              if (!tool) {
-                return res.json({
-                  jsonrpc: '2.0',
-                  id,
-                  error: {
-                    code: -32602,
-                    message: `Tool '${name}' not found`
-                  }
-                });
-              }
-
-              const result = await this.mcpClient.callTool(name, args || {}, authContext);
-              res.json({
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  content: result.content || [],
-                  isError: result.isError || false
-                }
-              });
-            } catch (error: any) {
-              res.json({
-                jsonrpc: '2.0',
-                id,
-                error: {
-                  code: -32603,
-                  message: error.message
-                }
-              });
-            }
-            break;
-
-          default:
-            res.json({
-              jsonrpc: '2.0',
-              id,
-              error: {
-                code: -32601,
-                message: `Method '${method}' not found`
-              }
-            });
-        }
-      } catch (error: any) {
-        res.json({
-          jsonrpc: '2.0',
-          id: req.body.id,
-          error: {
-            code: -32700,
-            message: 'Parse error'
-          }
-        });
       }
     });
 
+    // MCP server-to-client SSE stream for an existing session
+    this.app.get('/api/mcp', async (req: Request, res: Response) => {
+      await this.mcpSessions.handleSessionRequest(req, res);
+    });
+
+    // MCP session termination
+    this.app.delete('/api/mcp', async (req: Request, res: Response) => {
+      await this.mcpSessions.handleSessionRequest(req, res);
+    });
+
     // Get tools count (do not print all tools as requested)
     this.app.get('/api/tools', async (req: Request, res: Response) => {
       try {
@@ -418,6 +264,27 @@ class Server {
       }
     });
 
+    // Re-fetch the upstream tool list; connected MCP sessions receive tools/list_changed
+    this.app.post('/api/tools/refresh', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const tools = await this.mcpClient.refreshTools(authContext);
+        res.json({
+          success: true,
+          toolsCount: tools.length,
+          organization: authContext.azureDevOpsOrg
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
     // Get full tools list (separate endpoint)
     this.app.get('/api/tools/list', async (req: Request, res: Response) => {
       try {
@@ -445,8 +312,107 @@ class Server {
       }
     });
 
-    // Call a tool
+    // Call a tool; ?fields=, ?format=markdown|csv|json, ?maxChars= and ?offset= shape the result
     this.app.post('/api/tools/:toolName/call', async (req: Request, res: Response) => {
+      const { arguments: args, approvalId } = req.body;
+      await this.handleToolCall(req, res, req.params.toolName as string, args, approvalId, false, req.query);
+    });
+
+    // Typed per-tool operations described by /openapi.json; the body is the arguments object
+    this.app.post('/api/v1/:toolName', async (req: Request, res: Response) => {
+      await this.handleToolCall(req, res, req.params.toolName as string, req.body, req.headers['x-approval-id'] as string | undefined, false, req.query);
+    });
+
+    // GET-style variant: query parameters are the arguments, coerced to the schema's types
+    this.app.get('/api/v1/:toolName', async (req: Request, res: Response) => {
+      await this.handleToolCall(req, res, req.params.toolName as string, { ...req.query }, req.headers['x-approval-id'] as string | undefined, true);
+    });
+
+    // OpenAPI 3.1 document generated from the tools visible to the caller
+    this.app.get('/openapi.json', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        await this.mcpClient.getOrCreateClient(authContext);
+        res.json(buildOpenApiDocument(this.mcpClient.getTools(authContext), {
+          organization: authContext.azureDevOpsOrg,
+          authMethods: getInboundAuthMethods()
+        }));
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // API explorer for the OpenAPI document
+    this.app.get('/docs', (req: Request, res: Response) => {
+      res.type('html').send(renderApiDocsPage());
+    });
+
+    // Execute a tool, streaming upstream progress and log messages as server-sent events
+    // (event: progress / log, then a final result, pending or error event)
+    this.app.post('/api/tools/:toolName/call/stream', async (req: Request, res: Response) => {
+      const authContext = req.authContext;
+      if (!authContext?.azureDevOpsOrg) {
+        return res.status(401).json({
+          error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+        });
+      }
+
+      const toolName = req.params.toolName as string;
+      const { arguments: args, approvalId } = req.body;
+
+      // Failures before the stream starts keep their regular status codes
+      let shape: ShapeOptions | undefined;
+      try {
+        shape = parseShapeOptions(req.query);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      try {
+        await this.mcpClient.getOrCreateClient(authContext);
+      } catch (error: any) {
+        return res.status(500).json({ error: error.message });
+      }
+      if (!this.mcpClient.getTool(toolName, authContext)) {
+        return res.status(404).json({ error: `Tool '${toolName}' not found` });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      try {
+        let cache: CacheStatus | undefined;
+        const result = await this.mcpClient.callTool(toolName, args || {}, authContext, {
+          approvalId,
+          source: 'rest',
+          signal: this.abortOnDisconnect(res),
+          noCache: this.bypassesCache(req),
+          onCacheStatus: status => cache = status,
+          onProgress: progress => send('progress', progress),
+          onLog: message => send('log', message)
+        });
+        send('result', { success: true, data: shapeToolResult(result, shape), cache, organization: authContext.azureDevOpsOrg });
+      } catch (error: any) {
+        const { status, body } = this.toolCallErrorResponse(error);
+        send(status === 202 ? 'pending' : 'error', { statusCode: status, ...body });
+      }
+      res.end();
+    });
+
+    // Batch tool execution: steps run with bounded concurrency once their dependencies
+    // succeed, and may reference earlier results with { "$ref": "stepId.json.path" }
+    this.app.post('/api/tools/batch', async (req: Request, res: Response) => {
       try {
         const authContext = req.authContext;
         if (!authContext?.azureDevOpsOrg) {
@@ -462,18 +428,27 @@ class Server {
           return res.status(503).json({ error: 'MCP client not ready' });
         }
 
-        const { toolName } = req.params;
-        const { arguments: args } = req.body;
+        const { tools, concurrency, stopOnError } = req.body;
+        if (!Array.isArray(tools)) {
+          return res.status(400).json({ error: 'Request body must contain a "tools" array' });
+        }
+
+        const signal = this.abortOnDisconnect(res);
+        const runner = this.createBatchRunner(authContext, signal, 'batch', this.bypassesCache(req));
 
-        const tool = this.mcpClient.getTool(toolName, authContext);
-        if (!tool) {
-          return res.status(404).json({ error: `Tool '${toolName}' not found` });
+        try {
+          validateBatch(tools);
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
         }
 
-        const result = await this.mcpClient.callTool(toolName, args || {}, authContext);
+        const startedAt = Date.now();
+        const results = await runner.run(tools, this.batchOptions(concurrency, stopOnError, signal));
+
         res.json({ 
-          success: true, 
-          data: result,
+          success: true,
+          results,
+          durationMs: Date.now() - startedAt,
           organization: authContext.azureDevOpsOrg
         });
       } catch (error: any) {
@@ -481,8 +456,9 @@ class Server {
       }
     });
 
-    // Batch tool execution
-    this.app.post('/api/tools/batch', async (req: Request, res: Response) => {
+    // Run a tool call ({ "tool", "arguments" }) or a batch ({ "tools", ... }) in the background;
+    // poll GET /api/jobs/:id or pass "webhookUrl" to be notified when it finishes
+    this.app.post('/api/jobs', async (req: Request, res: Response) => {
       try {
         const authContext = req.authContext;
         if (!authContext?.azureDevOpsOrg) {
@@ -493,49 +469,287 @@ class Server {
 
         // Ensure client is available for this auth context
         await this.mcpClient.getOrCreateClient(authContext);
-        
+
         if (!this.mcpClient.isReady(authContext)) {
           return res.status(503).json({ error: 'MCP client not ready' });
         }
 
-        const { tools } = req.body;
-        if (!Array.isArray(tools)) {
-          return res.status(400).json({ error: 'Request body must contain a "tools" array' });
-        }
+        const { tool, arguments: args, approvalId, tools, concurrency, stopOnError, webhookUrl } = req.body;
+        const options = { caller: authContext.caller?.id, organization: authContext.azureDevOpsOrg, webhookUrl };
+        const noCache = this.bypassesCache(req);
+        let job;
 
-        const results = [];
-        for (const toolCall of tools) {
+        if (Array.isArray(tools)) {
           try {
-            const { name, arguments: args } = toolCall;
-            const tool = this.mcpClient.getTool(name, authContext);
-            
-            if (!tool) {
-              results.push({
-                toolName: name,
-                success: false,
-                error: `Tool '${name}' not found`
-              });
-              continue;
-            }
-
-            const result = await this.mcpClient.callTool(name, args || {}, authContext);
-            results.push({
-              toolName: name,
-              success: true,
-              data: result
-            });
+            validateBatch(tools);
           } catch (error: any) {
-            results.push({
-              toolName: toolCall.name,
-              success: false,
-              error: error.message
-            });
+            return res.status(400).json({ error: error.message });
+          }
+
+          job = this.jobs.submit({ kind: 'batch', ...options }, async signal => {
+            const startedAt = Date.now();
+            const runner = this.createBatchRunner(authContext, signal, 'job', noCache);
+            const results = await runner.run(tools, this.batchOptions(concurrency, stopOnError, signal));
+            return { results, durationMs: Date.now() - startedAt };
+          });
+        } else if (typeof tool === 'string') {
+          if (!this.mcpClient.getTool(tool, authContext)) {
+            return res.status(404).json({ error: `Tool '${tool}' not found` });
           }
+
+          job = this.jobs.submit({ kind: 'call', toolName: tool, ...options }, signal =>
+            this.mcpClient.callTool(tool, args || {}, authContext, { approvalId, source: 'job', signal, noCache })
+          );
+        } else {
+          return res.status(400).json({ error: 'Request body must contain a "tool" name or a "tools" array' });
         }
 
-        res.json({ 
+        res.status(202).location(`/api/jobs/${job.id}`).json(job);
+      } catch (error: any) {
+        if (error instanceof JobRejectedError) {
+          return res.status(error.statusCode).json({ error: error.message });
+        }
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // List the caller's jobs
+    this.app.get('/api/jobs', (req: Request, res: Response) => {
+      res.json({ jobs: this.jobs.list(req.authContext?.caller?.id) });
+    });
+
+    // Job status, with the result once it has finished
+    this.app.get('/api/jobs/:id', (req: Request, res: Response) => {
+      const job = this.jobs.get(req.params.id as string, req.authContext?.caller?.id);
+      if (!job) {
+        return res.status(404).json({ error: `Job '${req.params.id}' not found` });
+      }
+      res.json(job);
+    });
+
+    // Cancel a running job
+    this.app.delete('/api/jobs/:id', (req: Request, res: Response) => {
+      const job = this.jobs.get(req.params.id as string, req.authContext?.caller?.id);
+      if (!job) {
+        return res.status(404).json({ error: `Job '${req.params.id}' not found` });
+      }
+
+      try {
+        res.json(this.jobs.cancel(job.id));
+      } catch (error: any) {
+        res.status(409).json({ error: error.message });
+      }
+    });
+
+    // Query the audit log of tool invocations
+    this.app.get('/api/audit', async (req: Request, res: Response) => {
+      // Callers listed in AUDIT_READERS see every entry; everyone else only their own
+      const readers = (process.env.AUDIT_READERS || '').split(',').map(r => r.trim()).filter(Boolean);
+      const caller = req.authContext?.caller;
+      if (!caller) {
+        return res.status(403).json({ error: 'Caller is not allowed to read the audit log' });
+      }
+      const isReader = readers.includes(caller.id);
+
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'Invalid "since" timestamp' });
+      }
+
+      try {
+        const entries = await this.mcpClient.queryAudit({
+          tool: req.query.tool as string | undefined,
+          caller: isReader ? req.query.caller as string | undefined : caller.id,
+          since,
+          limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+        });
+        res.json({ entries, count: entries.length });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Inspect the upstream client pool
+    this.app.get('/api/admin/clients', (req: Request, res: Response) => {
+      if (!this.isAdmin(req)) {
+        return res.status(403).json({ error: 'Caller is not allowed to manage clients' });
+      }
+
+      const clients = this.mcpClient.getPoolStats();
+      res.json({ clients, count: clients.length });
+    });
+
+    // Force-evict a pooled client (key is URL encoded)
+    this.app.delete('/api/admin/clients/:key', async (req: Request, res: Response) => {
+      if (!this.isAdmin(req)) {
+        return res.status(403).json({ error: 'Caller is not allowed to manage clients' });
+      }
+
+      const key = req.params.key as string;
+      if (!(await this.mcpClient.evictClient(key))) {
+        return res.status(404).json({ error: `Client '${key}' not found` });
+      }
+      res.json({ success: true, key });
+    });
+
+    // List approvals, optionally filtered by status; approvers see all, other callers their own
+    this.app.get('/api/approvals', (req: Request, res: Response) => {
+      const status = req.query.status as ApprovalStatus | undefined;
+      const approvals = this.mcpClient.getApprovals(status).filter(approval => this.canViewApproval(req, approval));
+      res.json({ approvals });
+    });
+
+    // Get a single approval (agents poll this for the outcome)
+    this.app.get('/api/approvals/:id', (req: Request, res: Response) => {
+      const approval = this.mcpClient.getApproval(req.params.id as string);
+      if (!approval || !this.canViewApproval(req, approval)) {
+        return res.status(404).json({ error: `Approval '${req.params.id}' not found` });
+      }
+      res.json(approval);
+    });
+
+    // Approve a parked call - resumes it when possible
+    this.app.post('/api/approvals/:id/approve', async (req: Request, res: Response) => {
+      await this.handleApprovalDecision(req, res, true);
+    });
+
+    // Reject a parked call
+    this.app.post('/api/approvals/:id/reject', async (req: Request, res: Response) => {
+      await this.handleApprovalDecision(req, res, false);
+    });
+
+    // List resources exposed by the upstream server
+    this.app.get('/api/resources', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const cursor = req.query.cursor as string | undefined;
+        const result = await this.mcpClient.listResources(cursor ? { cursor } : undefined, authContext);
+        res.json({
+          ...result,
+          organization: authContext.azureDevOpsOrg
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // List resource templates exposed by the upstream server
+    this.app.get('/api/resources/templates', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const cursor = req.query.cursor as string | undefined;
+        const result = await this.mcpClient.listResourceTemplates(cursor ? { cursor } : undefined, authContext);
+        res.json({
+          ...result,
+          organization: authContext.azureDevOpsOrg
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Read a resource by URI
+    this.app.post('/api/resources/read', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const { uri } = req.body;
+        if (!uri) {
+          return res.status(400).json({ error: 'Request body must contain a "uri"' });
+        }
+
+        const result = await this.mcpClient.readResource({ uri }, authContext);
+        res.json({
           success: true,
-          results,
+          data: result,
+          organization: authContext.azureDevOpsOrg
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // List prompts exposed by the upstream server
+    this.app.get('/api/prompts', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const cursor = req.query.cursor as string | undefined;
+        const result = await this.mcpClient.listPrompts(cursor ? { cursor } : undefined, authContext);
+        res.json({
+          ...result,
+          organization: authContext.azureDevOpsOrg
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Get a prompt with arguments
+    this.app.post('/api/prompts/:promptName/get', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const promptName = req.params.promptName as string;
+        const { arguments: args } = req.body;
+
+        const result = await this.mcpClient.getPrompt({ name: promptName, arguments: args }, authContext);
+        res.json({
+          success: true,
+          data: result,
+          organization: authContext.azureDevOpsOrg
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Argument completion for prompts and resource templates
+    this.app.post('/api/completions', async (req: Request, res: Response) => {
+      try {
+        const authContext = req.authContext;
+        if (!authContext?.azureDevOpsOrg) {
+          return res.status(401).json({
+            error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+          });
+        }
+
+        const { ref, argument, context } = req.body;
+        if (!ref || !argument) {
+          return res.status(400).json({ error: 'Request body must contain "ref" and "argument"' });
+        }
+
+        const result = await this.mcpClient.complete({ ref, argument, context }, authContext);
+        res.json({
+          success: true,
+          data: result,
           organization: authContext.azureDevOpsOrg
         });
       } catch (error: any) {
@@ -549,6 +763,223 @@ class Server {
     });
   }
 
+  /**
+   * Shared implementation of POST /api/tools/:toolName/call and POST /api/v1/:toolName
+   */
+  private async handleToolCall(
+    req: Request,
+    res: Response,
+    toolName: string,
+    args: any,
+    approvalId?: string,
+    coerceTypes: boolean = false,
+    shapeParams: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      const shape = parseShapeOptions(shapeParams);
+      const authContext = req.authContext;
+      if (!authContext?.azureDevOpsOrg) {
+        res.status(401).json({
+          error: 'Missing Azure DevOps organization. Set AZURE_DEVOPS_ORG environment variable and ensure Azure CLI is authenticated (az login)'
+        });
+        return;
+      }
+
+      // Ensure client is available for this auth context
+      await this.mcpClient.getOrCreateClient(authContext);
+
+      if (!this.mcpClient.isReady(authContext)) {
+        res.status(503).json({ error: 'MCP client not ready' });
+        return;
+      }
+
+      const tool = this.mcpClient.getTool(toolName, authContext);
+      if (!tool) {
+        res.status(404).json({ error: `Tool '${toolName}' not found` });
+        return;
+      }
+
+      let cache: CacheStatus | undefined;
+      const result = await this.mcpClient.callTool(toolName, args || {}, authContext, {
+        approvalId,
+        source: 'rest',
+        signal: this.abortOnDisconnect(res),
+        coerceTypes,
+        noCache: this.bypassesCache(req),
+        onCacheStatus: status => cache = status
+      });
+      if (cache) {
+        res.setHeader('X-Cache', cache.toUpperCase());
+      }
+      res.json({
+        success: true,
+        data: shapeToolResult(result, shape),
+        cache,
+        organization: authContext.azureDevOpsOrg
+      });
+    } catch (error: any) {
+      const { status, body, retryAfterSeconds } = this.toolCallErrorResponse(error);
+      if (retryAfterSeconds) {
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+      }
+      res.status(status).json(body);
+    }
+  }
+
+  /**
+   * Batch runner executing steps through callTool for one auth context
+   */
+  private createBatchRunner(authContext: AuthenticationContext, signal: AbortSignal, source: AuditSource, noCache: boolean): BatchRunner {
+    return new BatchRunner(
+      (name, args) => {
+        if (!this.mcpClient.getTool(name, authContext)) {
+          throw new Error(`Tool '${name}' not found`);
+        }
+        return this.mcpClient.callTool(name, args, authContext, { source, signal, noCache });
+      },
+      error => this.describeToolCallError(error)
+    );
+  }
+
+  private batchOptions(concurrency: unknown, stopOnError: unknown, signal: AbortSignal): BatchOptions {
+    // BATCH_MAX_CONCURRENCY caps the concurrency a caller may ask for
+    const maxConcurrency = parseInt(process.env.BATCH_MAX_CONCURRENCY || '8', 10);
+    return {
+      concurrency: Math.min(Number(concurrency) || 1, maxConcurrency),
+      stopOnError: !!stopOnError,
+      signal
+    };
+  }
+
+  /**
+   * Fields describing a failed call inside a batch or job result
+   */
+  private describeToolCallError(error: any): Record<string, unknown> {
+    if (error instanceof ApprovalPendingError) {
+      return { pending: true, approvalId: error.approval.id };
+    }
+    return {
+      error: error.message,
+      ...(error instanceof PolicyDeniedError ? { rule: error.rule, argument: error.argument } : {}),
+      ...(error instanceof ArgumentValidationError ? { violations: error.violations } : {}),
+      ...(error instanceof RateLimitedError ? { scope: error.scope, retryAfterSeconds: error.retryAfterSeconds } : {})
+    };
+  }
+
+  /**
+   * Map a callTool failure to the REST status code and body
+   */
+  private toolCallErrorResponse(error: any): { status: number; body: Record<string, unknown>; retryAfterSeconds?: number } {
+    if (error instanceof ApprovalPendingError) {
+      return {
+        status: 202,
+        body: {
+          success: false,
+          pending: true,
+          approvalId: error.approval.id,
+          status: error.approval.status,
+          message: `${error.message}. Poll GET /api/approvals/${error.approval.id} or re-submit with "approvalId"`
+        }
+      };
+    }
+    if (error instanceof PolicyDeniedError) {
+      return { status: 403, body: { error: error.message, rule: error.rule, argument: error.argument } };
+    }
+    if (error instanceof ArgumentValidationError) {
+      return { status: 400, body: { error: error.message, violations: error.violations } };
+    }
+    if (error instanceof ShapeOptionsError) {
+      return { status: 400, body: { error: error.message } };
+    }
+    if (error instanceof RateLimitedError) {
+      return {
+        status: 429,
+        body: { error: error.message, scope: error.scope, retryAfterSeconds: error.retryAfterSeconds },
+        retryAfterSeconds: error.retryAfterSeconds
+      };
+    }
+    if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      return { status: 504, body: { error: error.message } };
+    }
+    return { status: 500, body: { error: error.message } };
+  }
+
+  /**
+   * Cache-Control: no-cache (or no-store) skips the response cache lookup
+   */
+  private bypassesCache(req: Request): boolean {
+    return /\bno-(cache|store)\b/i.test(req.headers['cache-control'] || '');
+  }
+
+  /**
+   * Signal aborted when the HTTP client goes away before the response is sent,
+   * so the upstream call is cancelled instead of running to completion
+   */
+  private abortOnDisconnect(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort(new Error('Client disconnected'));
+      }
+    });
+    return controller.signal;
+  }
+
+  /**
+   * ADMINS lists the caller identities allowed to use admin endpoints; without it nobody can
+   */
+  private isAdmin(req: Request): boolean {
+    const admins = (process.env.ADMINS || '').split(',').map(a => a.trim()).filter(Boolean);
+    const caller = req.authContext?.caller;
+    return !!caller && admins.includes(caller.id);
+  }
+
+  /**
+   * APPROVERS lists the caller identities allowed to decide approvals; without it nobody can
+   */
+  private isApprover(req: Request): boolean {
+    const approvers = (process.env.APPROVERS || '').split(',').map(a => a.trim()).filter(Boolean);
+    const caller = req.authContext?.caller;
+    return !!caller && approvers.includes(caller.id);
+  }
+
+  /**
+   * Approvals hold the call's arguments and result, so only the caller who made the call and approvers see them
+   */
+  private canViewApproval(req: Request, approval: ApprovalRequest): boolean {
+    const caller = req.authContext?.caller;
+    return this.isApprover(req) || (!!caller && approval.caller?.id === caller.id);
+  }
+
+  private async handleApprovalDecision(req: Request, res: Response, approved: boolean): Promise<void> {
+    const caller = req.authContext?.caller;
+
+    if (!this.isApprover(req)) {
+      res.status(403).json({ error: 'Caller is not allowed to decide approvals (APPROVERS)' });
+      return;
+    }
+
+    const id = req.params.id as string;
+    const existing = this.mcpClient.getApproval(id);
+    if (!existing) {
+      res.status(404).json({ error: `Approval '${id}' not found` });
+      return;
+    }
+
+    // The caller who parked the call never decides it, even when listed in APPROVERS
+    if (existing.caller?.id === caller?.id) {
+      res.status(403).json({ error: 'Callers cannot decide their own approvals' });
+      return;
+    }
+
+    try {
+      const approval = await this.mcpClient.decideApproval(id, approved, caller?.id, req.body?.reason);
+      res.json(approval);
+    } catch (error: any) {
+      res.status(409).json({ error: error.message });
+    }
+  }
+
   public async start(): Promise<void> {
     try {
       // Initialize MCP client manager (creates default client if env vars are available)
@@ -557,16 +988,47 @@ class Server {
       // Start periodic cleanup of unused clients (every 15 minutes)
       setInterval(() => {
         this.mcpClient.cleanupUnusedClients(30).catch(error => {
-          console.error('Error during client cleanup:', error);
+          logger.error('Error during client cleanup', { error });
+        });
+      }, 15 * 60 * 1000);
+
+      // Ping upstream clients so dead ones are replaced before a request hits them
+      const healthCheckInterval = parseInt(process.env.MCP_HEALTH_CHECK_INTERVAL_MS || '30000', 10);
+      if (healthCheckInterval > 0) {
+        setInterval(() => {
+          this.mcpClient.checkClientHealth().catch(error => {
+            logger.error('Error during client health check', { error });
+          });
+        }, healthCheckInterval);
+      }
+
+      // Close idle MCP sessions (every 15 minutes)
+      setInterval(() => {
+        this.mcpSessions.cleanupIdleSessions(60).catch(error => {
+          logger.error('Error during session cleanup', { error });
         });
       }, 15 * 60 * 1000);
 
+      // Drop finished jobs past their retention (every 5 minutes)
+      setInterval(() => this.jobs.cleanupExpiredJobs(), 5 * 60 * 1000);
+
+      // Expire stale approvals and drop finished ones past their retention (every 5 minutes)
+      setInterval(() => this.mcpClient.cleanupExpiredApprovals(), 5 * 60 * 1000);
+
+      // Pre-start clients for MCP_WARM_ORGS in the background; requests for them wait on the same startup
+      const warmOrgs = (process.env.MCP_WARM_ORGS || '').split(',').map(o => o.trim()).filter(Boolean);
+      if (warmOrgs.length > 0) {
+        this.mcpClient.warmUp(warmOrgs);
+      }
+
       // Start HTTP server
       this.app.listen(this.port, () => {
-        console.log(`🚀 HTTP Server started on port ${this.port}`);
-        console.log(`📊 Health check: http://localhost:${this.port}/health`);
-        console.log(`🔧 Tools: http://localhost:${this.port}/api/tools`);
-        console.log(`🌐 MCP Endpoint: http://localhost:${this.port}/api/mcp`);
+        logger.info('HTTP server started', {
+          port: this.port,
+          health: `http://localhost:${this.port}/health`,
+          tools: `http://localhost:${this.port}/api/tools`,
+          mcpEndpoint: `http://localhost:${this.port}/api/mcp`
+        });
       });
 
       // Start HTTPS server if enabled and certificates exist
@@ -582,28 +1044,30 @@ class Server {
             };
 
             https.createServer(httpsOptions, this.app).listen(this.httpsPort, () => {
-              console.log(`🔒 HTTPS Server started on port ${this.httpsPort}`);
-              console.log(`📊 HTTPS Health check: https://localhost:${this.httpsPort}/health`);
-              console.log(`🔧 HTTPS Tools: https://localhost:${this.httpsPort}/api/tools`);
-              console.log(`🌐 HTTPS MCP Endpoint: https://localhost:${this.httpsPort}/api/mcp`);
-              console.log(`🔑 For Claude Desktop, use: https://localhost:${this.httpsPort}/api/mcp`);
+              logger.info('HTTPS server started', {
+                port: this.httpsPort,
+                health: `https://localhost:${this.httpsPort}/health`,
+                tools: `https://localhost:${this.httpsPort}/api/tools`,
+                mcpEndpoint: `https://localhost:${this.httpsPort}/api/mcp`
+              });
             });
           } else {
-            console.warn('⚠️  HTTPS enabled but certificates not found. Run: npm run generate-certs');
+            logger.warn('HTTPS enabled but certificates not found. Run: npm run generate-certs');
           }
         } catch (error) {
-          console.error('❌ Failed to start HTTPS server:', error);
+          logger.error('Failed to start HTTPS server', { error });
         }
       }
 
-      console.log(`🔐 Authentication: Azure CLI (ensure 'az login' is completed)`);
     } catch (error) {
-      console.error('Failed to start server:', error);
+      logger.error('Failed to start server', { error });
       process.exit(1);
     }
   }
 
   public async stop(): Promise<void> {
+    this.jobs.cleanup();
+    await this.mcpSessions.cleanup();
     await this.mcpClient.cleanup();
   }
 }
@@ -0,0 +1,92 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { MCPTool } from './mcp-client';
+import { logger } from './logger';
+
+export interface ArgumentViolation {
+  // JSON pointer to the offending argument, e.g. "/top" ("" for the arguments object itself)
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when tool arguments do not match the tool's inputSchema
+ */
+export class ArgumentValidationError extends Error {
+  constructor(public toolName: string, public violations: ArgumentViolation[]) {
+    super(`Invalid arguments for tool '${toolName}': ${violations.map(v => `${v.path || '/'} ${v.message}`).join('; ')}`);
+    this.name = 'ArgumentValidationError';
+  }
+}
+
+/**
+ * Validates tools/call arguments against each tool's inputSchema.
+ * Compiled validators are cached per tool object, so a refreshed tool list is recompiled.
+ */
+export class ArgumentValidator {
+  private strict: Ajv;
+  // Coerces strings from query parameters into the schema's types
+  private coercing: Ajv;
+  private validators: WeakMap<MCPTool, ValidateFunction | null> = new WeakMap();
+  private coercingValidators: WeakMap<MCPTool, ValidateFunction | null> = new WeakMap();
+
+  constructor() {
+    this.strict = createAjv(false);
+    this.coercing = createAjv(true);
+  }
+
+  /**
+   * Return the (possibly coerced) arguments or throw ArgumentValidationError
+   */
+  validate(tool: MCPTool, args: Record<string, unknown>, coerceTypes: boolean = false): Record<string, unknown> {
+    const validate = this.getValidator(tool, coerceTypes);
+    if (!validate) {
+      return args;
+    }
+
+    // Ajv coerces in place; never touch the caller's object
+    const value = structuredClone(args);
+    if (!validate(value)) {
+      throw new ArgumentValidationError(tool.name, (validate.errors || []).map(toViolation));
+    }
+    return value;
+  }
+
+  private getValidator(tool: MCPTool, coerceTypes: boolean): ValidateFunction | null {
+    const cache = coerceTypes ? this.coercingValidators : this.validators;
+    if (cache.has(tool)) {
+      return cache.get(tool)!;
+    }
+
+    let validate: ValidateFunction | null = null;
+    if (tool.inputSchema && typeof tool.inputSchema === 'object') {
+      // Upstream schemas declare various drafts; validate them all with the default dialect
+      const { $schema, ...schema } = tool.inputSchema;
+      try {
+        validate = (coerceTypes ? this.coercing : this.strict).compile(schema);
+      } catch (error) {
+        logger.warn('Could not compile tool input schema; arguments are not validated', { tool: tool.name, error });
+      }
+    }
+
+    cache.set(tool, validate);
+    return validate;
+  }
+}
+
+function createAjv(coerceTypes: boolean): Ajv {
+  const ajv = new Ajv({ allErrors: true, strict: false, coerceTypes });
+  addFormats(ajv);
+  return ajv;
+}
+
+function toViolation(error: ErrorObject): ArgumentViolation {
+  // Point at the missing / unexpected property rather than its parent object
+  const property = error.params.missingProperty ?? error.params.additionalProperty;
+  return {
+    path: property !== undefined ? `${error.instancePath}/${property}` : error.instancePath,
+    message: error.keyword === 'required'
+      ? 'is required'
+      : error.keyword === 'additionalProperties' ? 'is not allowed' : error.message || 'is invalid'
+  };
+}